@@ -0,0 +1,270 @@
+import { App, Modal, Notice, Setting, TFile, getAllTags } from 'obsidian';
+import { LinkEdit, applyLinkEdits, collectLinkEdits } from './link-scanner';
+import { collectRelabelEdits } from './link-relabel';
+import type PatternLinkShortenerPlugin from './main';
+
+/**
+ * Pending link edits for a single file
+ */
+interface FileScanResult {
+    file: TFile;
+    edits: LinkEdit[];
+}
+
+/**
+ * Limits a vault scan to a folder and/or a tag
+ */
+interface ScanScope {
+    folder: string;
+    tag: string;
+}
+
+/**
+ * What a bulk run does: shorten bare URLs, or regenerate labels of existing links
+ */
+export type BulkLinkMode = 'shorten' | 'relabel';
+
+const MODE_TEXT: Record<BulkLinkMode, { title: string; empty: string; done: string }> = {
+    shorten: { title: 'Shorten links', empty: 'No links to shorten.', done: 'Shortened' },
+    relabel: { title: 'Update link labels', empty: 'No link labels to update.', done: 'Updated' },
+};
+
+/**
+ * Vault-wide (or single note) bulk shortening with a dry-run preview.
+ * Nothing is written until the user applies the accepted changes.
+ */
+export class BulkShortenModal extends Modal {
+    plugin: PatternLinkShortenerPlugin;
+    mode: BulkLinkMode;
+
+    /** If set, only this note is scanned */
+    file: TFile | null;
+
+    private scanScope: ScanScope = { folder: '', tag: '' };
+    private results: FileScanResult[] = [];
+    private rejectedFiles = new Set<string>();
+    private rejectedPatterns = new Set<string>();
+    private resultsEl: HTMLElement;
+
+    constructor(app: App, plugin: PatternLinkShortenerPlugin, mode: BulkLinkMode = 'shorten', file: TFile | null = null) {
+        super(app);
+        this.plugin = plugin;
+        this.mode = mode;
+        this.file = file;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('pattern-bulk-modal');
+
+        const title = MODE_TEXT[this.mode].title;
+        if (this.file) {
+            contentEl.createEl('h2', { text: `${title} in ${this.file.basename}` });
+            this.resultsEl = contentEl.createDiv({ cls: 'pattern-bulk-results' });
+            this.scan();
+            return;
+        }
+
+        contentEl.createEl('h2', { text: `${title} in vault` });
+
+        new Setting(contentEl)
+            .setName('Folder (optional)')
+            .setDesc('Only scan notes inside this folder')
+            .addText(text => text
+                .setPlaceholder('Projects/Backend')
+                .onChange(value => this.scanScope.folder = value.trim()));
+
+        new Setting(contentEl)
+            .setName('Tag (optional)')
+            .setDesc('Only scan notes with this tag (nested tags included)')
+            .addText(text => text
+                .setPlaceholder('#work')
+                .onChange(value => this.scanScope.tag = value.trim()));
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Scan')
+                .setCta()
+                .onClick(async () => {
+                    btn.setDisabled(true);
+                    await this.scan();
+                    btn.setDisabled(false);
+                }));
+
+        this.resultsEl = contentEl.createDiv({ cls: 'pattern-bulk-results' });
+    }
+
+    private async scan(): Promise<void> {
+        this.results = [];
+        this.rejectedFiles.clear();
+        this.rejectedPatterns.clear();
+        this.resultsEl.empty();
+        this.resultsEl.createEl('p', { text: 'Scanning...', cls: 'pattern-bulk-status' });
+
+        const files = this.file ? [this.file] : this.app.vault.getMarkdownFiles().filter(file => this.isInScope(file));
+        for (const file of files) {
+            const content = await this.app.vault.cachedRead(file);
+            const edits = this.collectEdits(content);
+            if (edits.length > 0) {
+                this.results.push({ file, edits: await this.plugin.resolveTitles(edits) });
+            }
+        }
+
+        this.renderResults();
+    }
+
+    private collectEdits(content: string): LinkEdit[] {
+        return this.mode === 'relabel'
+            ? collectRelabelEdits(content, this.plugin.matcher, this.plugin.getMatchOptions())
+            : collectLinkEdits(content, this.plugin.matcher, this.plugin.getMatchOptions());
+    }
+
+    private isInScope(file: TFile): boolean {
+        const folder = this.scanScope.folder.replace(/^\/+|\/+$/g, '');
+        if (folder && !file.path.startsWith(folder + '/')) {
+            return false;
+        }
+
+        const tag = this.scanScope.tag.replace(/^#?/, '#').toLowerCase();
+        if (tag !== '#') {
+            const cache = this.app.metadataCache.getFileCache(file);
+            const tags = (cache ? getAllTags(cache) : null) ?? [];
+            return tags.some(t => {
+                const normalized = t.toLowerCase();
+                return normalized === tag || normalized.startsWith(tag + '/');
+            });
+        }
+
+        return true;
+    }
+
+    private renderResults(): void {
+        this.resultsEl.empty();
+
+        if (this.results.length === 0) {
+            this.resultsEl.createEl('p', { text: MODE_TEXT[this.mode].empty, cls: 'pattern-bulk-status' });
+            return;
+        }
+
+        const totalEdits = this.results.reduce((sum, result) => sum + result.edits.length, 0);
+        this.resultsEl.createEl('p', {
+            text: `Found ${totalEdits} link(s) in ${this.results.length} file(s). Untoggle files or patterns to skip them.`,
+            cls: 'pattern-bulk-status',
+        });
+
+        // Per-pattern toggles
+        this.resultsEl.createEl('h4', { text: 'Patterns' });
+        const counts = new Map<string, number>();
+        for (const result of this.results) {
+            for (const edit of result.edits) {
+                counts.set(edit.patternId, (counts.get(edit.patternId) ?? 0) + 1);
+            }
+        }
+        for (const [patternId, count] of Array.from(counts.entries())) {
+            const pattern = this.plugin.settings.patterns.find(p => p.id === patternId);
+            new Setting(this.resultsEl)
+                .setName(pattern ? pattern.name : patternId)
+                .setDesc(`${count} link(s)`)
+                .addToggle(toggle => toggle
+                    .setValue(!this.rejectedPatterns.has(patternId))
+                    .onChange(value => {
+                        this.setRejected(this.rejectedPatterns, patternId, !value);
+                        this.renderResults();
+                    }));
+        }
+
+        // Per-file previews
+        this.resultsEl.createEl('h4', { text: 'Files' });
+        for (const result of this.results) {
+            const fileEl = this.resultsEl.createDiv({ cls: 'pattern-bulk-file' });
+
+            new Setting(fileEl)
+                .setName(result.file.path)
+                .addToggle(toggle => toggle
+                    .setValue(!this.rejectedFiles.has(result.file.path))
+                    .onChange(value => {
+                        this.setRejected(this.rejectedFiles, result.file.path, !value);
+                        this.renderResults();
+                    }));
+
+            const listEl = fileEl.createEl('ul', { cls: 'pattern-bulk-edits' });
+            for (const edit of result.edits) {
+                const itemEl = listEl.createEl('li');
+                if (!this.isAccepted(result, edit)) {
+                    itemEl.addClass('is-rejected');
+                }
+                itemEl.createEl('code', { text: edit.original });
+                itemEl.createSpan({ text: ' → ' });
+                itemEl.createEl('code', { text: edit.replacement });
+            }
+        }
+
+        // Action buttons
+        const buttonContainer = this.resultsEl.createDiv({ cls: 'modal-button-container' });
+
+        const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelBtn.addEventListener('click', () => this.close());
+
+        const applyBtn = buttonContainer.createEl('button', {
+            text: 'Apply changes',
+            cls: 'mod-cta'
+        });
+        applyBtn.addEventListener('click', async () => {
+            applyBtn.disabled = true;
+            await this.applyChanges();
+            this.close();
+        });
+    }
+
+    private setRejected(set: Set<string>, key: string, rejected: boolean): void {
+        if (rejected) {
+            set.add(key);
+        } else {
+            set.delete(key);
+        }
+    }
+
+    private isAccepted(result: FileScanResult, edit: LinkEdit): boolean {
+        return !this.rejectedFiles.has(result.file.path) && !this.rejectedPatterns.has(edit.patternId);
+    }
+
+    private async applyChanges(): Promise<void> {
+        let changedFiles = 0;
+        let changedLinks = 0;
+
+        for (const result of this.results) {
+            if (this.rejectedFiles.has(result.file.path)) continue;
+
+            // Recompute against the current content in case the file changed since the scan
+            const content = await this.app.vault.read(result.file);
+            const edits = await this.plugin.resolveTitles(
+                this.collectEdits(content)
+                    .filter(edit => this.isAccepted(result, edit))
+            );
+            if (edits.length === 0) continue;
+
+            let applied = false;
+            await this.app.vault.process(result.file, data => {
+                // Skip files edited while page titles were being fetched
+                if (data !== content) return data;
+                applied = true;
+                return applyLinkEdits(data, edits);
+            });
+
+            if (applied) {
+                changedFiles++;
+                changedLinks += edits.length;
+                if (this.mode === 'shorten') {
+                    await this.plugin.onLinksShortened(edits, result.file.path);
+                }
+            }
+        }
+
+        new Notice(`${MODE_TEXT[this.mode].done} ${changedLinks} link(s) in ${changedFiles} file(s)`);
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
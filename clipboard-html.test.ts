@@ -0,0 +1,42 @@
+import { findHtmlAnchors, getClipboardLink } from './clipboard-html';
+
+describe('findHtmlAnchors', () => {
+    it('should find http(s) anchors with their visible text', () => {
+        const html = '<p>See <a href="https://example.com/a?x=1&amp;y=2">the <b>first</b>\n link</a> and '
+            + "<a class='x' href='http://example.com/b'>second</a>, <a href=https://example.com/c>third</a></p>";
+        expect(findHtmlAnchors(html)).toEqual([
+            { url: 'https://example.com/a?x=1&y=2', label: 'the first link' },
+            { url: 'http://example.com/b', label: 'second' },
+            { url: 'https://example.com/c', label: 'third' },
+        ]);
+    });
+
+    it('should skip other schemes and anchors inside comments', () => {
+        const html = '<a href="mailto:a@b.c">mail</a><!-- <a href="https://x.com">x</a> --><a href="#top">top</a>';
+        expect(findHtmlAnchors(html)).toEqual([]);
+    });
+});
+
+describe('getClipboardLink', () => {
+    it('should return a link copied on its own', () => {
+        const html = '<meta charset="utf-8"><html><body><!--StartFragment-->'
+            + '<a href="https://jira.example.com/browse/DEV-123">DEV-123: Fix &quot;login&quot; bug</a>'
+            + '<!--EndFragment--></body></html>';
+        expect(getClipboardLink(html)).toEqual({
+            url: 'https://jira.example.com/browse/DEV-123',
+            label: 'DEV-123: Fix "login" bug',
+        });
+    });
+
+    it('should ignore styles and scripts around the link', () => {
+        const html = '<style>a { color: red; }</style><span><a href="https://example.com/1">Title</a></span>';
+        expect(getClipboardLink(html)?.label).toBe('Title');
+    });
+
+    it('should return null for text around a link or several links', () => {
+        expect(getClipboardLink('<p>See <a href="https://example.com/1">this</a></p>')).toBeNull();
+        expect(getClipboardLink('<a href="https://example.com/1">a</a> <a href="https://example.com/2">b</a>')).toBeNull();
+        expect(getClipboardLink('<b>no links</b>')).toBeNull();
+        expect(getClipboardLink('')).toBeNull();
+    });
+});
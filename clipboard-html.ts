@@ -0,0 +1,57 @@
+import { decodeHtmlEntities } from './utils';
+
+/**
+ * A link copied as rich text
+ */
+export interface ClipboardLink {
+    url: string;
+
+    /** Visible text of the anchor, e.g. an issue title */
+    label: string;
+}
+
+const ANCHOR_REGEX = /<a\s[^>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))[^>]*>([\s\S]*?)<\/a\s*>/i;
+
+// Markup without visible text: comments (e.g. <!--StartFragment-->), head, styles and scripts
+const INVISIBLE_REGEX = /<!--[\s\S]*?-->|<(head|style|script)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+
+/**
+ * Visible text of an HTML fragment, with whitespace collapsed
+ */
+function getHtmlText(html: string): string {
+    return decodeHtmlEntities(html.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Finds the http(s) anchors in clipboard HTML, in order
+ */
+export function findHtmlAnchors(html: string): ClipboardLink[] {
+    const links: ClipboardLink[] = [];
+    const regex = new RegExp(ANCHOR_REGEX.source, 'gi');
+    const visibleHtml = html.replace(INVISIBLE_REGEX, '');
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(visibleHtml)) !== null) {
+        const url = decodeHtmlEntities(match[1] ?? match[2] ?? match[3]).trim();
+        if (/^https?:\/\//i.test(url)) {
+            links.push({ url, label: getHtmlText(match[4]) });
+        }
+    }
+
+    return links;
+}
+
+/**
+ * Returns the link if clipboard HTML is a single anchor and nothing else
+ * (wrapper elements aside), as copied from an issue tracker, a chat or an address bar.
+ * Returns null for anything else, e.g. a paragraph that contains a link.
+ */
+export function getClipboardLink(html: string): ClipboardLink | null {
+    if (!html) return null;
+
+    const anchors = findHtmlAnchors(html);
+    if (anchors.length !== 1) return null;
+
+    const text = getHtmlText(html.replace(INVISIBLE_REGEX, ''));
+    return text === anchors[0].label ? anchors[0] : null;
+}
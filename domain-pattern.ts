@@ -0,0 +1,203 @@
+/**
+ * One comma-separated entry of a domain pattern, e.g. "*.atlassian.net", "localhost:8080",
+ * "company.com/jira" or "!status.example.com"
+ */
+export interface DomainRule {
+    /** The entry started with !, URLs it matches are rejected */
+    exclude: boolean;
+
+    /** Host as written, lowercase and punycode-encoded; may contain * */
+    host: string;
+
+    /** Matches the URL's hostname */
+    hostRegex: RegExp;
+
+    /** Port the URL must use, or null for any port */
+    port: string | null;
+
+    /** Path the URL must start with, without trailing slash ('' for none) */
+    pathPrefix: string;
+}
+
+/**
+ * Parts of an http(s) URL that domain rules look at
+ */
+export interface ParsedUrl {
+    /** Lowercase, punycode-encoded hostname; IPv6 addresses keep their brackets */
+    hostname: string;
+
+    /** Port the URL connects to, default ports included */
+    port: string;
+
+    /** Hostname plus port if it isn't the default one, e.g. "localhost:8080" */
+    host: string;
+
+    /** Everything after the host and port as written: path, query string and fragment */
+    rest: string;
+}
+
+/**
+ * Result of matching a URL against the rules of a pattern
+ */
+export interface DomainMatch {
+    /** Matched host plus path prefix, the ${domain} placeholder */
+    domain: string;
+
+    /** Part of the URL after the path prefix, which the path pattern must match */
+    rest: string;
+}
+
+// Host (a bracketed IPv6 address or anything up to the port), port and path prefix
+const ENTRY_REGEX = /^(\[[^\]]*\]|[^:/]*)(?::(\d+))?(\/.*)?$/;
+
+// Scheme and authority (userinfo, host and port) of an http(s) URL
+const AUTHORITY_REGEX = /^https?:\/\/[^/?#\\]*/i;
+
+/**
+ * Converts a host to the form URLs use: lowercase, internationalized labels in punycode
+ */
+function toAsciiHost(host: string): string {
+    try {
+        return new URL(`http://${host}/`).hostname;
+    } catch {
+        throw new Error(`Invalid domain "${host}"`);
+    }
+}
+
+/**
+ * Normalizes a host that may contain wildcards, label by label
+ */
+function normalizeHost(host: string): string {
+    if (!host.includes('*')) return toAsciiHost(host);
+
+    return host.split('.')
+        .map(label => label.includes('*') || /^[\x00-\x7f]*$/.test(label) ? label.toLowerCase() : toAsciiHost(label))
+        .join('.');
+}
+
+/**
+ * Regex for a normalized host: * matches any characters within one label,
+ * a host that is only * matches every host
+ */
+function hostToRegex(host: string): RegExp {
+    if (host === '*') return /^/;
+
+    const parts = host.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`^${parts.join('[^.]*')}$`);
+}
+
+/**
+ * Parses a domain pattern into rules. Entries are separated by commas; each is a host
+ * with an optional port and path prefix, and entries starting with ! exclude URLs.
+ * Throws if an entry is invalid or there is nothing to include.
+ */
+export function parseDomainPattern(pattern: string): DomainRule[] {
+    const rules: DomainRule[] = [];
+
+    for (const rawEntry of pattern.split(',')) {
+        let entry = rawEntry.trim();
+        if (!entry) continue;
+
+        const exclude = entry.startsWith('!');
+        if (exclude) entry = entry.slice(1).trim();
+
+        const match = entry.match(ENTRY_REGEX);
+        if (!match || !match[1]) {
+            throw new Error(`Invalid domain "${entry}"`);
+        }
+
+        const port = match[2] ?? null;
+        if (port !== null && Number(port) > 65535) {
+            throw new Error(`Invalid port in "${entry}"`);
+        }
+
+        const host = normalizeHost(match[1]);
+        rules.push({
+            exclude,
+            host,
+            hostRegex: hostToRegex(host),
+            port,
+            pathPrefix: (match[3] ?? '').replace(/\/+$/, ''),
+        });
+    }
+
+    if (!rules.some(rule => !rule.exclude)) {
+        throw new Error('Domain pattern needs at least one domain that is not excluded');
+    }
+    return rules;
+}
+
+/**
+ * Validates a domain pattern
+ * Returns null if valid, error message if invalid
+ */
+export function validateDomainPattern(pattern: string): string | null {
+    try {
+        parseDomainPattern(pattern);
+        return null;
+    } catch (e) {
+        return e instanceof Error ? e.message : 'Invalid domain pattern';
+    }
+}
+
+// The same URL is usually matched against several patterns in a row
+let lastUrl: string | null = null;
+let lastParsed: ParsedUrl | null = null;
+
+/**
+ * Parses an http(s) URL, returns null for other schemes and invalid URLs.
+ * Userinfo ("user@") is never part of the host.
+ */
+export function parseHttpUrl(url: string): ParsedUrl | null {
+    if (url === lastUrl) return lastParsed;
+
+    let parsed: ParsedUrl | null = null;
+    const authority = url.match(AUTHORITY_REGEX);
+    if (authority) {
+        try {
+            const { hostname, port, protocol, host } = new URL(url);
+            parsed = {
+                hostname,
+                port: port || (protocol === 'https:' ? '443' : '80'),
+                host,
+                rest: url.slice(authority[0].length),
+            };
+        } catch {
+            parsed = null;
+        }
+    }
+
+    lastUrl = url;
+    lastParsed = parsed;
+    return parsed;
+}
+
+/**
+ * Whether a URL is on the rule's host and port, and under its path prefix
+ */
+function matchesRule(rule: DomainRule, url: ParsedUrl): boolean {
+    if (!rule.hostRegex.test(url.hostname)) return false;
+    if (rule.port !== null && rule.port !== url.port) return false;
+
+    // "company.com/jira" matches /jira and /jira/..., not /jira-old
+    return url.rest.startsWith(rule.pathPrefix) && /^(?:[/?#]|$)/.test(url.rest.slice(rule.pathPrefix.length));
+}
+
+/**
+ * Matches a URL against domain rules: the first matching entry that isn't an exclusion
+ * wins, unless any exclusion matches. Returns null if the URL doesn't match.
+ */
+export function matchDomain(rules: DomainRule[], url: ParsedUrl): DomainMatch | null {
+    let match: DomainMatch | null = null;
+
+    for (const rule of rules) {
+        if (!matchesRule(rule, url)) continue;
+        if (rule.exclude) return null;
+
+        if (!match) {
+            match = { domain: url.host + rule.pathPrefix, rest: url.rest.slice(rule.pathPrefix.length) };
+        }
+    }
+
+    return match;
+}
@@ -0,0 +1,45 @@
+import { App, Editor, SuggestModal } from 'obsidian';
+import { HistoryEntry } from './types';
+import { formatTimeAgo } from './stats';
+import type PatternLinkShortenerPlugin from './main';
+
+/**
+ * Searchable list of recent shortenings; the chosen link is inserted at the cursor
+ */
+export class HistoryModal extends SuggestModal<HistoryEntry> {
+    plugin: PatternLinkShortenerPlugin;
+    editor: Editor;
+
+    constructor(app: App, plugin: PatternLinkShortenerPlugin, editor: Editor) {
+        super(app);
+        this.plugin = plugin;
+        this.editor = editor;
+        this.setPlaceholder('Search recent links...');
+        this.emptyStateText = 'No matching links in history.';
+    }
+
+    getSuggestions(query: string): HistoryEntry[] {
+        const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+        return this.plugin.settings.history.filter(entry => {
+            const haystack = `${entry.output} ${entry.url} ${entry.notePath}`.toLowerCase();
+            return terms.every(term => haystack.includes(term));
+        });
+    }
+
+    renderSuggestion(entry: HistoryEntry, el: HTMLElement): void {
+        el.addClass('pattern-history-item');
+        el.createDiv({ text: entry.output });
+
+        const pattern = this.plugin.settings.patterns.find(p => p.id === entry.patternId);
+        const details = [
+            pattern ? pattern.name : null,
+            entry.notePath || null,
+            formatTimeAgo(entry.timestamp, Date.now()),
+        ].filter(Boolean).join(' · ');
+        el.createEl('small', { text: `${entry.url}\n${details}`, cls: 'pattern-history-details' });
+    }
+
+    onChooseSuggestion(entry: HistoryEntry): void {
+        this.editor.replaceSelection(entry.output);
+    }
+}
@@ -0,0 +1,82 @@
+import { LinkPattern } from './types';
+import { MAX_PREVIOUS_TEMPLATES, collectRelabelEdits, recordTemplateChange } from './link-relabel';
+import { applyLinkEdits } from './link-scanner';
+import { PatternMatcher } from './pattern-matcher';
+
+const github: LinkPattern = {
+    id: 'github',
+    name: 'GitHub',
+    enabled: true,
+    domainPattern: 'github.com',
+    pathPattern: '\\/([^\\/]+\\/[^\\/]+)\\/(issues|pull)\\/(\\d+)',
+    outputTemplate: '[${1} PR ${3}](${url})',
+    previousTemplates: ['[${1}#${3}](${url})'],
+};
+
+const url = 'https://github.com/o/r/pull/2';
+
+describe('recordTemplateChange', () => {
+    it('should remember the old template, newest first', () => {
+        const previous = { ...github, outputTemplate: '[${3}](${url})' };
+        expect(recordTemplateChange(previous, github).previousTemplates)
+            .toEqual(['[${3}](${url})', '[${1}#${3}](${url})']);
+    });
+
+    it('should leave patterns with an unchanged template alone', () => {
+        expect(recordTemplateChange(github, github)).toBe(github);
+    });
+
+    it('should drop the current template and duplicates from the history', () => {
+        const previous = { ...github, outputTemplate: '[${1}#${3}](${url})', previousTemplates: ['[${1} PR ${3}](${url})'] };
+        expect(recordTemplateChange(previous, { ...github, previousTemplates: previous.previousTemplates }).previousTemplates)
+            .toEqual(['[${1}#${3}](${url})']);
+    });
+
+    it('should keep a bounded history', () => {
+        let pattern = github;
+        for (let i = 0; i < MAX_PREVIOUS_TEMPLATES + 5; i++) {
+            pattern = recordTemplateChange(pattern, { ...pattern, outputTemplate: `[${i}](\${url})` });
+        }
+        expect(pattern.previousTemplates).toHaveLength(MAX_PREVIOUS_TEMPLATES);
+    });
+});
+
+describe('collectRelabelEdits', () => {
+    it('should relabel links generated by an earlier template', () => {
+        const text = `Fixed in [o/r#2](${url}).`;
+        const edits = collectRelabelEdits(text, [github]);
+        expect(edits).toEqual([{
+            from: 9,
+            to: 9 + `[o/r#2](${url})`.length,
+            original: `[o/r#2](${url})`,
+            url,
+            replacement: `[o/r PR 2](${url})`,
+            patternId: 'github',
+            format: 'markdown',
+        }]);
+        expect(applyLinkEdits(text, edits)).toBe(`Fixed in [o/r PR 2](${url}).`);
+    });
+
+    it('should relabel links whose label is the raw URL', () => {
+        expect(applyLinkEdits(`[${url}](${url} "PR")`, collectRelabelEdits(`[${url}](${url} "PR")`, [github])))
+            .toBe(`[o/r PR 2](${url} "PR")`);
+    });
+
+    it('should keep hand-written and current labels', () => {
+        expect(collectRelabelEdits(`[the fix](${url}) [o/r PR 2](${url})`, [github])).toEqual([]);
+    });
+
+    it('should skip images, code and links no pattern matches', () => {
+        const text = `![o/r#2](${url}) \`[o/r#2](${url})\` [x](https://example.com/x)`;
+        expect(collectRelabelEdits(text, [github])).toEqual([]);
+    });
+
+    it('should accept a pattern matcher', () => {
+        expect(applyLinkEdits(`[o/r#2](${url})`, collectRelabelEdits(`[o/r#2](${url})`, new PatternMatcher([github]))))
+            .toBe(`[o/r PR 2](${url})`);
+    });
+
+    it('should skip disabled patterns', () => {
+        expect(collectRelabelEdits(`[o/r#2](${url})`, [{ ...github, enabled: false }])).toEqual([]);
+    });
+});
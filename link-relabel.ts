@@ -0,0 +1,55 @@
+import { LinkPattern, MatchOptions } from './types';
+import { LinkEdit, findMarkdownLinks } from './link-scanner';
+import { PatternMatcher } from './pattern-matcher';
+import { hasTitlePlaceholder } from './title-fetcher';
+
+/** How many earlier templates are remembered per pattern */
+export const MAX_PREVIOUS_TEMPLATES = 10;
+
+/**
+ * Remembers the old template of an edited pattern, so links created with it can be relabeled
+ */
+export function recordTemplateChange(previous: LinkPattern, updated: LinkPattern): LinkPattern {
+    if (previous.outputTemplate === updated.outputTemplate) return updated;
+
+    const history = [previous.outputTemplate, ...(updated.previousTemplates ?? previous.previousTemplates ?? [])]
+        .filter((template, index, all) => template !== updated.outputTemplate && all.indexOf(template) === index);
+
+    return { ...updated, previousTemplates: history.slice(0, MAX_PREVIOUS_TEMPLATES) };
+}
+
+/**
+ * Finds markdown links whose label was generated by an earlier template (or is the
+ * raw URL) and computes edits that regenerate the label with the current template.
+ * Links with hand-written labels are left alone.
+ */
+export function collectRelabelEdits(text: string, patterns: LinkPattern[] | PatternMatcher, options: MatchOptions = {}): LinkEdit[] {
+    const matcher = patterns instanceof PatternMatcher ? patterns : new PatternMatcher(patterns);
+    const getPreviousTemplates = (pattern: LinkPattern) =>
+        (pattern.previousTemplates ?? []).filter(template => !hasTitlePlaceholder(template));
+    const edits: LinkEdit[] = [];
+
+    for (const link of findMarkdownLinks(text)) {
+        const url = link.url as string;
+
+        // First matching pattern wins, as when pasting
+        const match = matcher.findLabelMatch(url, getPreviousTemplates, options);
+        if (!match) continue;
+
+        const isGenerated = link.label === url || match.previousLabels.includes(link.label);
+        if (isGenerated && link.label !== match.label) {
+            const original = text.slice(link.from, link.to);
+            edits.push({
+                from: link.from,
+                to: link.to,
+                original,
+                url,
+                replacement: `[${match.label}]` + original.slice(link.label.length + 2),
+                patternId: match.pattern.id,
+                format: 'markdown',
+            });
+        }
+    }
+
+    return edits;
+}
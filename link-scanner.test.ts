@@ -0,0 +1,194 @@
+import { LinkPattern } from './types';
+import { applyLinkEdits, collectLinkEdits, findBareUrls, findLinkAtPosition, shortenUrlsInText, trimUrlPunctuation } from './link-scanner';
+
+const patterns: LinkPattern[] = [
+    {
+        id: 'jira',
+        name: 'JIRA',
+        enabled: true,
+        domainPattern: '*.atlassian.net',
+        pathPattern: '\\/.*\\/([A-Z][A-Z0-9]*-\\d+)',
+        outputTemplate: '[${1}](${url})',
+    },
+    {
+        id: 'github',
+        name: 'GitHub',
+        enabled: true,
+        domainPattern: 'github.com',
+        pathPattern: '\\/([^\\/]+\\/[^\\/]+)\\/(issues|pull)\\/(\\d+)',
+        outputTemplate: '[${1}#${3}](${url})',
+    },
+];
+
+function shorten(text: string): string {
+    return applyLinkEdits(text, collectLinkEdits(text, patterns));
+}
+
+describe('trimUrlPunctuation', () => {
+    it('should strip trailing sentence punctuation', () => {
+        expect(trimUrlPunctuation('https://example.com/a.')).toBe('https://example.com/a');
+        expect(trimUrlPunctuation('https://example.com/a,')).toBe('https://example.com/a');
+        expect(trimUrlPunctuation('https://example.com/a?!')).toBe('https://example.com/a');
+    });
+
+    it('should strip unbalanced closing parentheses', () => {
+        expect(trimUrlPunctuation('https://example.com/a).')).toBe('https://example.com/a');
+    });
+
+    it('should keep balanced parentheses', () => {
+        expect(trimUrlPunctuation('https://en.wikipedia.org/wiki/Foo_(bar)'))
+            .toBe('https://en.wikipedia.org/wiki/Foo_(bar)');
+    });
+});
+
+describe('findBareUrls', () => {
+    it('should find URLs in running text', () => {
+        const text = 'See https://a.atlassian.net/browse/DEV-1, and (https://github.com/o/r/pull/2).';
+        expect(findBareUrls(text).map(o => o.url)).toEqual([
+            'https://a.atlassian.net/browse/DEV-1',
+            'https://github.com/o/r/pull/2',
+        ]);
+    });
+
+    it('should report correct offsets', () => {
+        const text = 'x https://example.com y';
+        expect(findBareUrls(text)).toEqual([{ url: 'https://example.com', from: 2, to: 21 }]);
+    });
+
+    it('should skip URLs inside markdown links', () => {
+        expect(findBareUrls('[DEV-1](https://a.atlassian.net/browse/DEV-1)')).toEqual([]);
+        expect(findBareUrls('[https://a.atlassian.net/browse/DEV-1](https://a.atlassian.net/browse/DEV-1)')).toEqual([]);
+    });
+
+    it('should skip URLs inside wikilinks and autolinks', () => {
+        expect(findBareUrls('[[https://example.com]]')).toEqual([]);
+        expect(findBareUrls('<https://example.com>')).toEqual([]);
+    });
+
+    it('should skip URLs inside HTML links', () => {
+        expect(findBareUrls('<a href="https://example.com/a">https://example.com/a</a>')).toEqual([]);
+    });
+
+    it('should skip URLs inside inline code', () => {
+        expect(findBareUrls('run `curl https://example.com` now')).toEqual([]);
+        expect(findBareUrls('``code ` https://example.com``')).toEqual([]);
+    });
+
+    it('should skip URLs inside fenced code blocks', () => {
+        const text = '```\nhttps://example.com/a\n```\nhttps://example.com/b\n~~~\nhttps://example.com/c';
+        expect(findBareUrls(text).map(o => o.url)).toEqual(['https://example.com/b']);
+    });
+
+    it('should skip URLs in reference-style link definitions', () => {
+        const text = '[1]: https://example.com/a\n  [docs]: <https://example.com/b> "Docs"\nsee [1] https://example.com/c';
+        expect(findBareUrls(text).map(o => o.url)).toEqual(['https://example.com/c']);
+    });
+
+    it('should skip URLs in HTML attributes', () => {
+        const text = '<img src="https://example.com/a.png"> <img src=\'https://example.com/b\'> <iframe src=https://example.com/c>';
+        expect(findBareUrls(text)).toEqual([]);
+        expect(findBareUrls('a = https://example.com/d').map(o => o.url)).toEqual(['https://example.com/d']);
+        expect(findBareUrls('https://example.com/login?next=https://example.com/e').map(o => o.url))
+            .toEqual(['https://example.com/login?next=https://example.com/e']);
+    });
+
+    it('should only scan the lines from an offset on', () => {
+        const text = 'https://example.com/a\n```\nhttps://example.com/b\n```\nsee https://example.com/c';
+        const offset = text.indexOf('see') + 2;
+        expect(findBareUrls(text, offset).map(o => o.url)).toEqual(['https://example.com/c']);
+        expect(findBareUrls(text, text.indexOf('https://example.com/b'))).toEqual([
+            { url: 'https://example.com/c', from: text.indexOf('https://example.com/c'), to: text.length },
+        ]);
+    });
+
+    it('should skip URLs in frontmatter', () => {
+        const text = '---\nsource: https://example.com/a\n---\nhttps://example.com/b';
+        expect(findBareUrls(text).map(o => o.url)).toEqual(['https://example.com/b']);
+    });
+});
+
+describe('collectLinkEdits', () => {
+    it('should shorten every matching bare URL', () => {
+        expect(shorten('Fixed in https://github.com/o/r/pull/2 for https://a.atlassian.net/browse/DEV-1.'))
+            .toBe('Fixed in [o/r#2](https://github.com/o/r/pull/2) for [DEV-1](https://a.atlassian.net/browse/DEV-1).');
+    });
+
+    it('should leave non-matching URLs untouched', () => {
+        expect(shorten('See https://google.com/search')).toBe('See https://google.com/search');
+    });
+
+    it('should not touch existing links and code', () => {
+        const text = '[DEV-1](https://a.atlassian.net/browse/DEV-1) `https://a.atlassian.net/browse/DEV-2`';
+        expect(collectLinkEdits(text, patterns)).toEqual([]);
+    });
+
+    it('should not touch link definitions and HTML attributes', () => {
+        const text = '[1]: https://a.atlassian.net/browse/DEV-1\n<img src="https://a.atlassian.net/browse/DEV-2">';
+        expect(shorten(text)).toBe(text);
+    });
+
+    it('should record the matching pattern id', () => {
+        const edits = collectLinkEdits('https://github.com/o/r/issues/7', patterns);
+        expect(edits).toHaveLength(1);
+        expect(edits[0].patternId).toBe('github');
+    });
+});
+
+describe('shortenUrlsInText', () => {
+    it('should shorten each URL in a multi-line paste', () => {
+        const text = 'Tickets:\n- https://a.atlassian.net/browse/DEV-1\n- https://a.atlassian.net/browse/DEV-2\n';
+        expect(shortenUrlsInText(text, patterns)).toBe(
+            'Tickets:\n- [DEV-1](https://a.atlassian.net/browse/DEV-1)\n- [DEV-2](https://a.atlassian.net/browse/DEV-2)\n'
+        );
+    });
+
+    it('should keep trailing punctuation outside the link', () => {
+        expect(shortenUrlsInText('Done (https://github.com/o/r/pull/2), see https://a.atlassian.net/browse/DEV-1.', patterns))
+            .toBe('Done ([o/r#2](https://github.com/o/r/pull/2)), see [DEV-1](https://a.atlassian.net/browse/DEV-1).');
+    });
+
+    it('should return null when nothing matches', () => {
+        expect(shortenUrlsInText('hello https://google.com world', patterns)).toBeNull();
+        expect(shortenUrlsInText('no links here', patterns)).toBeNull();
+    });
+});
+
+describe('findLinkAtPosition', () => {
+    const url = 'https://a.atlassian.net/browse/DEV-1';
+
+    it('should find a markdown link around the offset', () => {
+        const text = `See [DEV-1](${url}) now`;
+        const link = { from: 4, to: 12 + url.length + 1, label: 'DEV-1', url };
+        expect(findLinkAtPosition(text, 4)).toEqual(link);
+        expect(findLinkAtPosition(text, 8)).toEqual(link);
+        expect(findLinkAtPosition(text, link.to)).toEqual(link);
+    });
+
+    it('should return null outside links', () => {
+        const text = `See [DEV-1](${url}) now`;
+        expect(findLinkAtPosition(text, 2)).toBeNull();
+        expect(findLinkAtPosition(text, text.length)).toBeNull();
+        expect(findLinkAtPosition('plain text', 3)).toBeNull();
+    });
+
+    it('should read markdown links with a title', () => {
+        expect(findLinkAtPosition(`[DEV-1](${url} "JIRA")`, 1)).toMatchObject({ label: 'DEV-1', url });
+    });
+
+    it('should read wikilinks with and without alias', () => {
+        expect(findLinkAtPosition('x [[Tickets/DEV-1|DEV-1]] y', 5)).toEqual({
+            from: 2, to: 25, label: 'DEV-1', linkpath: 'Tickets/DEV-1',
+        });
+        expect(findLinkAtPosition('[[DEV-1#Notes]]', 3)).toMatchObject({ label: 'DEV-1', linkpath: 'DEV-1' });
+    });
+
+    it('should read autolinks and HTML links', () => {
+        expect(findLinkAtPosition(`<${url}>`, 3)).toMatchObject({ label: url, url });
+        expect(findLinkAtPosition('<a href="https://x.com/?a=1&amp;b=2"><b>X</b> &amp; Y</a>', 5))
+            .toMatchObject({ label: 'X & Y', url: 'https://x.com/?a=1&b=2' });
+    });
+
+    it('should ignore images', () => {
+        expect(findLinkAtPosition('![alt](https://example.com/a.png)', 3)).toBeNull();
+    });
+});
@@ -0,0 +1,344 @@
+import { LinkNote, MatchOptions, OutputFormat } from './types';
+import { PatternSource, decodeHtmlEntities, findMatchingPattern } from './utils';
+
+/**
+ * A bare URL found in a piece of text, with its character offsets
+ */
+export interface UrlOccurrence {
+    url: string;
+    from: number;
+    to: number;
+}
+
+/**
+ * A link found at a position in the text
+ */
+export interface LinkAtPosition {
+    /** Start offset of the whole link */
+    from: number;
+
+    /** End offset (exclusive) of the whole link */
+    to: number;
+
+    /** Link text as displayed */
+    label: string;
+
+    /** Target URL of markdown, HTML and autolinks */
+    url?: string;
+
+    /** Note the link points to, for wikilinks */
+    linkpath?: string;
+}
+
+/**
+ * A single replacement of a bare URL with its shortened form
+ */
+export interface LinkEdit {
+    /** Start offset of the original URL */
+    from: number;
+
+    /** End offset (exclusive) of the original URL */
+    to: number;
+
+    /** The original text: the bare URL, or the whole link when relabeling */
+    original: string;
+
+    /** URL the replacement links to, used to fetch page titles */
+    url: string;
+
+    /** Text to insert instead of the URL */
+    replacement: string;
+
+    /** ID of the pattern that produced the replacement */
+    patternId: string;
+
+    /** Output format of the replacement, so fetched page titles can be escaped for it */
+    format?: OutputFormat;
+
+    /** Note the replacement links to, see PatternMatch */
+    note?: LinkNote;
+}
+
+type Range = [number, number];
+
+// Candidate URL tokens - trailing punctuation is trimmed afterwards
+const URL_REGEX = /https?:\/\/[^\s<>"'`]+/g;
+
+// Constructs whose URLs must be left alone
+const MARKDOWN_LINK_REGEX = /!?\[[^\]\n]*\]\((?:[^()\s]|\([^()\s]*\))*(?:\s+"[^"\n]*")?\)/g;
+const WIKILINK_REGEX = /!?\[\[[^\]\n]*\]\]/g;
+const AUTOLINK_REGEX = /<https?:\/\/[^>\s]*>/g;
+const HTML_LINK_REGEX = /<a\s[^>]*>[\s\S]*?<\/a>/gi;
+const LINK_DEFINITION_REGEX = /^ {0,3}\[[^\]\n]+\]:[ \t]*\S+/gm;
+const ATTRIBUTE_URL_REGEX = /\s[\w:-]+=["']?https?:\/\/[^\s"'<>`]+/g;
+const INLINE_CODE_REGEX = /(`+)(?:(?!\1)[^\n])+\1/g;
+const FENCE_OPEN_REGEX = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Removes trailing punctuation that is almost never part of a URL,
+ * e.g. "https://example.com/page)." in running text.
+ * Closing brackets are only kept when balanced inside the URL.
+ */
+export function trimUrlPunctuation(url: string): string {
+    let result = url;
+
+    for (;;) {
+        const last = result.charAt(result.length - 1);
+        if (/[.,;:!?'"*_~]/.test(last)) {
+            result = result.slice(0, -1);
+        } else if (last === ')' && countChar(result, ')') > countChar(result, '(')) {
+            result = result.slice(0, -1);
+        } else if (last === ']' && countChar(result, ']') > countChar(result, '[')) {
+            result = result.slice(0, -1);
+        } else {
+            return result;
+        }
+    }
+}
+
+function countChar(str: string, char: string): number {
+    return str.split(char).length - 1;
+}
+
+/**
+ * Finds ranges of fenced code blocks (``` or ~~~), including unclosed ones
+ */
+function findFencedCodeRanges(text: string): Range[] {
+    const ranges: Range[] = [];
+    let offset = 0;
+    let openFence: string | null = null;
+    let openStart = 0;
+
+    for (const line of text.split('\n')) {
+        const lineEnd = offset + line.length;
+        const fenceMatch = line.match(FENCE_OPEN_REGEX);
+
+        if (openFence === null) {
+            if (fenceMatch) {
+                openFence = fenceMatch[1];
+                openStart = offset;
+            }
+        } else if (
+            fenceMatch &&
+            fenceMatch[1][0] === openFence[0] &&
+            fenceMatch[1].length >= openFence.length &&
+            line.trim() === fenceMatch[1]
+        ) {
+            ranges.push([openStart, lineEnd]);
+            openFence = null;
+        }
+
+        offset = lineEnd + 1;
+    }
+
+    if (openFence !== null) {
+        ranges.push([openStart, text.length]);
+    }
+
+    return ranges;
+}
+
+/**
+ * Finds the YAML frontmatter block at the start of a note, if any
+ */
+function findFrontmatterRange(text: string): Range | null {
+    if (!text.startsWith('---\n')) return null;
+
+    const closing = text.slice(4).search(/^---[ \t]*$/m);
+    if (closing < 0) return null;
+
+    return [0, 4 + closing + 3];
+}
+
+function findRegexRanges(text: string, regex: RegExp): Range[] {
+    const ranges: Range[] = [];
+    const globalRegex = new RegExp(regex.source, `g${regex.multiline ? 'm' : ''}${regex.ignoreCase ? 'i' : ''}`);
+    let match: RegExpExecArray | null;
+    while ((match = globalRegex.exec(text)) !== null) {
+        ranges.push([match.index, match.index + match[0].length]);
+    }
+    return ranges;
+}
+
+/**
+ * Finds ranges whose content is not markdown: frontmatter, fenced code and inline code
+ */
+function findCodeRanges(text: string): Range[] {
+    const ranges: Range[] = findFencedCodeRanges(text);
+
+    const frontmatter = findFrontmatterRange(text);
+    if (frontmatter) ranges.push(frontmatter);
+
+    ranges.push(...findRegexRanges(text, INLINE_CODE_REGEX));
+
+    return ranges;
+}
+
+/**
+ * Finds all ranges where URLs should not be touched: frontmatter, fenced
+ * code, inline code, markdown links, wikilinks, autolinks, reference-style
+ * link definitions and HTML attribute values.
+ * Inline constructs are only looked for from `start` on, which should be the start of a line.
+ */
+export function findProtectedRanges(text: string, start = 0): Range[] {
+    const ranges: Range[] = findFencedCodeRanges(text);
+
+    const frontmatter = findFrontmatterRange(text);
+    if (frontmatter) ranges.push(frontmatter);
+
+    const rest = start > 0 ? text.slice(start) : text;
+    const regexes = [INLINE_CODE_REGEX, MARKDOWN_LINK_REGEX, WIKILINK_REGEX, AUTOLINK_REGEX, HTML_LINK_REGEX, LINK_DEFINITION_REGEX, ATTRIBUTE_URL_REGEX];
+    for (const regex of regexes) {
+        for (const [from, to] of findRegexRanges(rest, regex)) {
+            ranges.push([from + start, to + start]);
+        }
+    }
+
+    return ranges;
+}
+
+/**
+ * Finds markdown links (not images) outside code and frontmatter, in document order
+ */
+export function findMarkdownLinks(text: string): LinkAtPosition[] {
+    const codeRanges = findCodeRanges(text);
+    const links: LinkAtPosition[] = [];
+
+    for (const [from, to] of findRegexRanges(text, MARKDOWN_LINK_REGEX)) {
+        if (text.charAt(from) === '!') continue;
+        if (codeRanges.some(([start, end]) => from < end && to > start)) continue;
+
+        const link = parseLink(text.slice(from, to));
+        if (link && link.url !== undefined) {
+            links.push({ from, to, ...link });
+        }
+    }
+
+    return links;
+}
+
+/**
+ * Finds bare http(s) URLs that are not part of a link, code or frontmatter.
+ * With an offset, only the lines from there on are scanned for URLs, e.g. the visible
+ * part of an editor; code blocks are still detected from the start of the text.
+ */
+export function findBareUrls(text: string, offset = 0): UrlOccurrence[] {
+    const lineStart = offset > 0 ? text.lastIndexOf('\n', offset - 1) + 1 : 0;
+    const protectedRanges = findProtectedRanges(text, lineStart);
+    const occurrences: UrlOccurrence[] = [];
+
+    const urlRegex = new RegExp(URL_REGEX.source, 'g');
+    urlRegex.lastIndex = lineStart;
+    let match: RegExpExecArray | null;
+    while ((match = urlRegex.exec(text)) !== null) {
+        const from = match.index;
+        const url = trimUrlPunctuation(match[0]);
+        const to = from + url.length;
+
+        const isProtected = protectedRanges.some(([start, end]) => from < end && to > start);
+        if (!isProtected) {
+            occurrences.push({ url, from, to });
+        }
+    }
+
+    return occurrences;
+}
+
+/**
+ * Reads the label and target of a single link, or null for images and unknown markup
+ */
+function parseLink(source: string): Omit<LinkAtPosition, 'from' | 'to'> | null {
+    const markdown = source.match(/^\[([^\]\n]*)\]\(<?([^()\s<>]*(?:\([^()\s]*\)[^()\s<>]*)*)>?(?:\s+"[^"\n]*")?\)$/);
+    if (markdown) {
+        return { label: markdown[1], url: markdown[2] };
+    }
+
+    const wikilink = source.match(/^\[\[([^\]|#\n]*)(?:#[^\]|\n]*)?(?:\|([^\]\n]*))?\]\]$/);
+    if (wikilink) {
+        return { label: wikilink[2] ?? wikilink[1], linkpath: wikilink[1] };
+    }
+
+    const autolink = source.match(/^<(https?:\/\/[^>\s]*)>$/);
+    if (autolink) {
+        return { label: autolink[1], url: autolink[1] };
+    }
+
+    const html = source.match(/^<a\s[^>]*?href\s*=\s*(?:"([^"]*)"|'([^']*)')[^>]*>([\s\S]*?)<\/a>$/i);
+    if (html) {
+        return {
+            label: decodeHtmlEntities(html[3].replace(/<[^>]*>/g, '')),
+            url: decodeHtmlEntities(html[1] ?? html[2]),
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Finds the markdown link, wikilink, autolink or HTML link that contains the offset
+ * (including the position right after it). Images are ignored.
+ */
+export function findLinkAtPosition(text: string, offset: number): LinkAtPosition | null {
+    for (const regex of [MARKDOWN_LINK_REGEX, WIKILINK_REGEX, AUTOLINK_REGEX, HTML_LINK_REGEX]) {
+        for (const [from, to] of findRegexRanges(text, regex)) {
+            if (offset < from || offset > to || text.charAt(from) === '!') continue;
+
+            const link = parseLink(text.slice(from, to));
+            if (link) {
+                return { from, to, ...link };
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Computes the edits needed to shorten every matching bare URL in the text.
+ * Edits are returned in document order and never overlap.
+ */
+export function collectLinkEdits(text: string, patterns: PatternSource, options: MatchOptions = {}): LinkEdit[] {
+    const edits: LinkEdit[] = [];
+
+    for (const occurrence of findBareUrls(text)) {
+        const match = findMatchingPattern(occurrence.url, patterns, options);
+        if (!match) continue;
+
+        edits.push({
+            from: occurrence.from,
+            to: occurrence.to,
+            original: occurrence.url,
+            url: occurrence.url,
+            replacement: match.output,
+            patternId: match.pattern.id,
+            format: match.format,
+            note: match.note,
+        });
+    }
+
+    return edits;
+}
+
+/**
+ * Shortens every matching URL in arbitrary text, leaving the rest untouched.
+ * Returns null if nothing was shortened.
+ */
+export function shortenUrlsInText(text: string, patterns: PatternSource, options: MatchOptions = {}): string | null {
+    const edits = collectLinkEdits(text, patterns, options);
+    return edits.length > 0 ? applyLinkEdits(text, edits) : null;
+}
+
+/**
+ * Applies non-overlapping edits (in document order) to the text
+ */
+export function applyLinkEdits(text: string, edits: LinkEdit[]): string {
+    let result = '';
+    let cursor = 0;
+
+    for (const edit of edits) {
+        result += text.slice(cursor, edit.from) + edit.replacement;
+        cursor = edit.to;
+    }
+
+    return result + text.slice(cursor);
+}
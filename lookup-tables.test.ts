@@ -0,0 +1,55 @@
+import { formatLookupCsv, lookupValue, parseLookupCsv } from './lookup-tables';
+
+describe('parseLookupCsv', () => {
+    it('should parse key,value rows', () => {
+        expect(parseLookupCsv('DEVOPS,Platform\nPAY, Payments \n')).toEqual({
+            entries: { DEVOPS: 'Platform', PAY: 'Payments' },
+            errors: [],
+        });
+    });
+
+    it('should skip a header row and empty lines', () => {
+        expect(parseLookupCsv('Key,Value\r\n\r\nDEVOPS,Platform').entries).toEqual({ DEVOPS: 'Platform' });
+    });
+
+    it('should support quoted fields with commas, quotes and line breaks', () => {
+        expect(parseLookupCsv('"acme/a,b","The ""A"" team"\n"x","one\ntwo"').entries).toEqual({
+            'acme/a,b': 'The "A" team',
+            x: 'one\ntwo',
+        });
+    });
+
+    it('should let later rows win and allow extra columns', () => {
+        expect(parseLookupCsv('A,1\nA,2,comment').entries).toEqual({ A: '2' });
+    });
+
+    it('should report rows without a key or value', () => {
+        expect(parseLookupCsv('A,1\nB\n,2')).toEqual({
+            entries: { A: '1' },
+            errors: ['Row 2: expected "key,value"', 'Row 3: expected "key,value"'],
+        });
+    });
+});
+
+describe('formatLookupCsv', () => {
+    it('should round-trip entries through parseLookupCsv', () => {
+        const entries = { DEVOPS: 'Platform', 'acme/a,b': 'The "A" team', x: 'one\ntwo' };
+        expect(formatLookupCsv({ DEVOPS: 'Platform' })).toBe('DEVOPS,Platform');
+        expect(parseLookupCsv(formatLookupCsv(entries)).entries).toEqual(entries);
+    });
+});
+
+describe('lookupValue', () => {
+    const tables = [{ name: 'projects', entries: { DEVOPS: 'Platform', devops: 'Lowercase', PAY: 'Payments' } }];
+
+    it('should prefer exact keys, then match ignoring case', () => {
+        expect(lookupValue(tables, 'projects', 'devops')).toBe('Lowercase');
+        expect(lookupValue(tables, 'projects', 'pay')).toBe('Payments');
+    });
+
+    it('should return null for missing tables and keys', () => {
+        expect(lookupValue(tables, 'teams', 'DEVOPS')).toBeNull();
+        expect(lookupValue(tables, 'projects', 'OPS')).toBeNull();
+        expect(lookupValue(tables, 'projects', 'toString')).toBeNull();
+    });
+});
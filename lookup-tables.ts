@@ -0,0 +1,98 @@
+import { LookupTable } from './types';
+
+/**
+ * Result of parsing lookup table entries from CSV
+ */
+export interface LookupCsvResult {
+    entries: Record<string, string>;
+
+    /** One message per skipped row */
+    errors: string[];
+}
+
+/**
+ * Splits CSV text into rows of fields. Fields can be quoted, with "" for a literal quote.
+ */
+function parseCsvRows(csv: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < csv.length; i++) {
+        const char = csv[i];
+        if (quoted) {
+            if (char === '"' && csv[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && csv[i + 1] === '\n') i++;
+            rows.push([...row, field]);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    rows.push([...row, field]);
+    return rows;
+}
+
+/**
+ * Parses "key,value" rows into table entries. Empty rows and a "key,value" header are skipped;
+ * later rows win over earlier ones with the same key.
+ */
+export function parseLookupCsv(csv: string): LookupCsvResult {
+    const entries: Record<string, string> = {};
+    const errors: string[] = [];
+
+    parseCsvRows(csv).forEach((fields, index) => {
+        const [key, value] = fields.map(field => field.trim());
+        if (fields.length === 1 && !key) return;
+        if (index === 0 && key.toLowerCase() === 'key' && value?.toLowerCase() === 'value') return;
+
+        if (fields.length < 2 || !key) {
+            errors.push(`Row ${index + 1}: expected "key,value"`);
+            return;
+        }
+        entries[key] = value;
+    });
+
+    return { entries, errors };
+}
+
+/**
+ * Formats table entries as CSV, quoting fields where needed
+ */
+export function formatLookupCsv(entries: Record<string, string>): string {
+    const quote = (field: string) => /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+    return Object.keys(entries).map(key => `${quote(key)},${quote(entries[key])}`).join('\n');
+}
+
+/**
+ * Looks up a value in a named table: exact keys first, then ignoring case.
+ * Returns null if the table or the key doesn't exist.
+ */
+export function lookupValue(tables: LookupTable[], tableName: string, key: string): string | null {
+    const table = tables.find(candidate => candidate.name === tableName);
+    if (!table) return null;
+
+    if (Object.prototype.hasOwnProperty.call(table.entries, key)) {
+        return table.entries[key];
+    }
+
+    const lowerKey = key.toLowerCase();
+    const match = Object.keys(table.entries).find(candidate => candidate.toLowerCase() === lowerKey);
+    return match !== undefined ? table.entries[match] : null;
+}
@@ -1,8 +1,52 @@
-import { Plugin, MarkdownView, Editor } from "obsidian";
-import { formatLink } from './utils';
-import { LinkShortenerPluginSettings } from './types';
+import { Plugin, MarkdownView, MarkdownFileInfo, Menu, Editor, EditorPosition, Notice, TAbstractFile, TFile, normalizePath, requestUrl } from "obsidian";
+import { distributePastedText, findLinkMatch, findMatchingPattern } from './utils';
+import { renderTemplate } from './template';
+import { LinkAtPosition, LinkEdit, applyLinkEdits, collectLinkEdits, findLinkAtPosition } from './link-scanner';
+import { recordTemplateChange } from './link-relabel';
+import { formatOutput } from './output-format';
+import { createUrlDecorations, createUrlPostProcessor } from './url-decorations';
+import { recordUsage } from './stats';
+import { PatternMatcher } from './pattern-matcher';
+import { HistoryModal } from './history-modal';
+import { getClipboardLink } from './clipboard-html';
+import { Extension } from '@codemirror/state';
+import { TitleFetcher, hasTitlePlaceholder, markTitlesPending } from './title-fetcher';
+import { ImportConflictStrategy, LinkNote, LinkPattern, LinkShortenerPluginSettings, MatchOptions } from './types';
 import { createPatternFromPreset } from './presets';
-import { PatternLinkShortenerSettingsTab } from './settings-tab';
+import { PatternEditModal, PatternLinkShortenerSettingsTab } from './settings-tab';
+import { BulkShortenModal } from './bulk-shorten-modal';
+import { CURRENT_SETTINGS_VERSION, getSettingsVersion, migrateSettings } from './migrations';
+import { arePatternsEqual, exportPatterns, mergePatterns, parsePatternImport } from './pattern-io';
+
+// Editor change origins. Both are undo steps of their own, so a shortened
+// paste can be undone back to the raw text.
+const PASTE_ORIGIN = "input.paste";
+const SHORTEN_ORIGIN = "pattern-link-shortener";
+
+/**
+ * A selection or cursor in the editor, as offsets
+ */
+interface SelectedRange {
+    from: number;
+    to: number;
+    selection: string;
+}
+
+/**
+ * What a paste inserts, with the text of the link if it was copied as rich text
+ */
+interface PasteInput {
+    text: string;
+    label?: string;
+}
+
+/**
+ * Text inserted into the editor that is going to be replaced
+ */
+interface InsertedText {
+    start: number;
+    text: string;
+}
 
 function getDefaultSettings(): LinkShortenerPluginSettings {
     return {
@@ -10,41 +54,725 @@ function getDefaultSettings(): LinkShortenerPluginSettings {
         patterns: [
             createPatternFromPreset('jira', { enabled: true }),
         ],
+        shortenUrlsInText: false,
+        displayShortenedUrls: false,
+        selectionAsLabel: false,
+        clipboardPreference: 'html',
+        lookupTables: [],
+        defaultOutputFormat: 'template',
+        patternFilePath: 'pattern-link-shortener.json',
+        syncPatternFile: false,
+        importConflictStrategy: 'skip',
+        stats: {},
+        history: [],
     };
 }
 
 export default class PatternLinkShortenerPlugin extends Plugin {
     settings: LinkShortenerPluginSettings;
 
+    /** Compiled patterns, rebuilt whenever settings are loaded or saved */
+    matcher: PatternMatcher;
+
+    /** Editor extensions, swapped out when settings change (see refreshEditorExtensions) */
+    private editorExtensions: Extension[] = [];
+
+    /** Skipped patterns already reported, so saving settings doesn't repeat the notice */
+    private reportedSkippedPatterns = new Set<string>();
+    titleFetcher = new TitleFetcher(async (url) => {
+        const response = await requestUrl({ url, throw: false });
+        return { status: response.status, text: response.text };
+    });
+
     async onload() {
         await this.loadSettings();
         this.addSettingTab(new PatternLinkShortenerSettingsTab(this.app, this));
 
+        // Display-only shortening of bare URLs
+        this.registerEditorExtension(this.editorExtensions);
+        this.refreshEditorExtensions();
+        this.registerMarkdownPostProcessor(createUrlPostProcessor(
+            () => this.matcher,
+            () => this.getMatchOptions(),
+            () => this.settings.displayShortenedUrls
+        ));
+
         console.log("Pattern Link Shortener plugin loaded");
 
         this.registerEvent(
             this.app.workspace.on(
                 "editor-paste",
                 (evt: ClipboardEvent, editor: Editor, view: MarkdownView) => {
-                    const pastedText = evt.clipboardData?.getData("text/plain");
-                    if (!pastedText) return;
+                    const input = evt.clipboardData ? this.getPasteInput(evt.clipboardData) : null;
+                    if (!input) return;
 
-                    const modifiedText = formatLink(pastedText, this.settings.patterns);
-                    if (!modifiedText) return;
+                    // One set of edits per cursor, as each can have its own text and selection
+                    const ranges = this.getSelectedRanges(editor);
+                    const texts = distributePastedText(input.text, ranges.length);
+                    const edits = ranges.map((range, index) => this.collectPasteEdits(texts[index], range.selection, input.label));
+                    if (edits.every(rangeEdits => rangeEdits.length === 0)) return;
 
                     evt.preventDefault();
-                    editor.replaceSelection(modifiedText);
+                    this.insertPaste(editor, ranges, texts, edits)
+                        .then(inserted => this.onLinksShortened(inserted, view.file?.path ?? ""))
+                        .catch(e => {
+                            console.error("Pattern Link Shortener: could not shorten pasted links", e);
+                            new Notice("Could not shorten pasted links");
+                        });
                 }
             )
         );
+
+        this.addCommand({
+            id: "shorten-links-in-note",
+            name: "Shorten links in current note or selection",
+            editorCallback: (editor: Editor) => this.shortenLinksInEditor(editor),
+        });
+
+        this.addCommand({
+            id: "paste-without-shortening",
+            name: "Paste without shortening",
+            editorCallback: (editor: Editor) => this.pasteWithoutShortening(editor),
+        });
+
+        this.addCommand({
+            id: "unshorten-link-at-cursor",
+            name: "Restore URL of link under cursor",
+            editorCallback: (editor: Editor, ctx: MarkdownView | MarkdownFileInfo) =>
+                this.unshortenLinkAtCursor(editor, ctx.file?.path ?? ""),
+        });
+
+        this.addCommand({
+            id: "update-link-labels-in-note",
+            name: "Update link labels in current note",
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== "md") return false;
+                if (!checking) {
+                    new BulkShortenModal(this.app, this, "relabel", file).open();
+                }
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: "update-link-labels-in-vault",
+            name: "Update link labels in vault...",
+            callback: () => new BulkShortenModal(this.app, this, "relabel").open(),
+        });
+
+        this.addCommand({
+            id: "insert-link-from-history",
+            name: "Insert link from history...",
+            editorCallback: (editor: Editor) => new HistoryModal(this.app, this, editor).open(),
+        });
+
+        this.addCommand({
+            id: "shorten-links-in-vault",
+            name: "Shorten links in vault...",
+            callback: () => new BulkShortenModal(this.app, this).open(),
+        });
+
+        // Keep patterns in sync with a shared JSON file in the vault
+        this.app.workspace.onLayoutReady(() => this.syncPatternsFromFile());
+        const onPatternFileChange = (file: TAbstractFile) => {
+            if (file.path === normalizePath(this.settings.patternFilePath)) {
+                this.syncPatternsFromFile();
+            }
+        };
+        this.registerEvent(this.app.vault.on("modify", onPatternFileChange));
+        this.registerEvent(this.app.vault.on("create", onPatternFileChange));
+
+        this.registerEvent(
+            this.app.workspace.on("editor-menu", (menu, editor: Editor, info: MarkdownView | MarkdownFileInfo) => {
+                menu.addItem(item => item
+                    .setTitle(editor.somethingSelected() ? "Shorten links in selection" : "Shorten links in note")
+                    .setIcon("link")
+                    .onClick(() => this.shortenLinksInEditor(editor)));
+                this.addLinkMenuItems(menu, editor, info.file?.path ?? "");
+            })
+        );
+    }
+
+    /**
+     * Rendering options taken from the settings
+     */
+    getMatchOptions(): MatchOptions {
+        return {
+            defaultFormat: this.settings.defaultOutputFormat,
+            selectionAsLabel: this.settings.selectionAsLabel,
+            lookupTables: this.settings.lookupTables,
+        };
+    }
+
+    /**
+     * Text to paste, from the plain text or from a link copied as rich text (whichever the
+     * settings prefer, if a pattern matches it), with the label of the copied link
+     */
+    private getPasteInput(data: DataTransfer): PasteInput | null {
+        const plainText = data.getData("text/plain");
+        const link = getClipboardLink(data.getData("text/html"));
+
+        const plain = plainText
+            ? { text: plainText, label: link && link.url === plainText.trim() ? link.label : undefined }
+            : null;
+        const html = link ? { text: link.url, label: link.label } : null;
+        const matches = (input: PasteInput | null) => input !== null && findLinkMatch(input.text, this.matcher) !== null;
+
+        if (this.settings.clipboardPreference === "html") {
+            return matches(html) ? html : plain;
+        }
+        return matches(plain) || !matches(html) ? plain : html;
+    }
+
+    /**
+     * Selections (or cursors) as offsets with their text, in document order
+     */
+    private getSelectedRanges(editor: Editor): SelectedRange[] {
+        return editor.listSelections()
+            .map(({ anchor, head }) => {
+                const from = Math.min(editor.posToOffset(anchor), editor.posToOffset(head));
+                const to = Math.max(editor.posToOffset(anchor), editor.posToOffset(head));
+                return { from, to, selection: editor.getRange(editor.offsetToPos(from), editor.offsetToPos(to)) };
+            })
+            .sort((a, b) => a.from - b.from);
+    }
+
+    /**
+     * Finds the edits for pasted text: either the whole text as a single URL
+     * (which can use the text it replaces as label), or (if enabled) every matching URL inside it
+     */
+    private collectPasteEdits(pastedText: string, selection: string, label?: string): LinkEdit[] {
+        const match = findLinkMatch(pastedText, this.matcher, { ...this.getMatchOptions(), selection, label });
+        if (match) {
+            return [{
+                from: 0,
+                to: pastedText.length,
+                original: pastedText,
+                url: pastedText,
+                replacement: match.output,
+                patternId: match.pattern.id,
+                format: match.format,
+                note: match.note,
+            }];
+        }
+
+        if (this.settings.shortenUrlsInText) {
+            return collectLinkEdits(pastedText, this.matcher, this.getMatchOptions());
+        }
+
+        return [];
+    }
+
+    /**
+     * Inserts pasted text at every cursor, then shortens it as a separate undo step,
+     * so undo right after a paste brings back the raw text. If templates use ${title},
+     * a placeholder is shown until titles are fetched.
+     * `texts` and `edits` hold the text pasted into each range and its edits.
+     */
+    private async insertPaste(editor: Editor, ranges: SelectedRange[], texts: string[], edits: LinkEdit[][]): Promise<LinkEdit[]> {
+        // Where each pasted text ends up, earlier ranges shift later ones
+        let shift = 0;
+        const inserted = ranges.map((range, index) => {
+            const start = range.from + shift;
+            shift += texts[index].length - (range.to - range.from);
+            return { start, text: texts[index] };
+        });
+
+        editor.transaction({
+            changes: ranges.map((range, index) => ({
+                from: editor.offsetToPos(range.from),
+                to: editor.offsetToPos(range.to),
+                text: texts[index],
+            })),
+        }, PASTE_ORIGIN);
+        editor.setSelections(inserted.map(({ start, text }) => ({ anchor: editor.offsetToPos(start + text.length) })));
+
+        const allEdits = ([] as LinkEdit[]).concat(...edits);
+        if (!allEdits.some(edit => hasTitlePlaceholder(edit.replacement))) {
+            this.replaceInsertedTexts(editor, inserted, edits.map((rangeEdits, index) => applyLinkEdits(texts[index], rangeEdits)));
+            return allEdits;
+        }
+
+        const pending = this.replaceInsertedTexts(editor, inserted, edits.map((rangeEdits, index) => applyLinkEdits(texts[index], rangeEdits.map(edit => ({
+            ...edit,
+            replacement: markTitlesPending(edit.replacement),
+        })))));
+
+        const resolved = await Promise.all(edits.map(rangeEdits => this.resolveTitles(rangeEdits)));
+        this.replaceInsertedTexts(editor, pending, resolved.map((rangeEdits, index) => applyLinkEdits(texts[index], rangeEdits)));
+        return ([] as LinkEdit[]).concat(...resolved);
+    }
+
+    /**
+     * Replaces previously inserted texts in one undo step, looking for a text elsewhere
+     * in the note if the user has edited around it in the meantime.
+     * Returns where the replacements are, for further updates.
+     */
+    private replaceInsertedTexts(editor: Editor, inserted: InsertedText[], replacements: string[]): InsertedText[] {
+        const content = editor.getValue();
+        const changes: { index: number; start: number; end: number }[] = [];
+
+        inserted.forEach(({ start, text }, index) => {
+            if (start < 0 || content.substr(start, text.length) !== text) {
+                start = content.indexOf(text);
+                if (start < 0) return;
+            }
+            const end = start + text.length;
+            if (!changes.some(change => change.start < end && start < change.end)) {
+                changes.push({ index, start, end });
+            }
+        });
+        changes.sort((a, b) => a.start - b.start);
+
+        editor.transaction({
+            changes: changes.map(change => ({
+                from: editor.offsetToPos(change.start),
+                to: editor.offsetToPos(change.end),
+                text: replacements[change.index],
+            })),
+        }, SHORTEN_ORIGIN);
+
+        // Texts that weren't found are looked up again next time
+        const replaced = inserted.map(({ text }) => ({ start: -1, text }));
+        let shift = 0;
+        for (const change of changes) {
+            const text = replacements[change.index];
+            replaced[change.index] = { start: change.start + shift, text };
+            shift += text.length - (change.end - change.start);
+        }
+        return replaced;
+    }
+
+    /**
+     * Pastes the clipboard as is, bypassing all patterns
+     */
+    private async pasteWithoutShortening(editor: Editor) {
+        let text: string;
+        try {
+            text = await navigator.clipboard.readText();
+        } catch (e) {
+            new Notice("Could not read the clipboard");
+            return;
+        }
+
+        if (text) {
+            editor.replaceSelection(text, PASTE_ORIGIN);
+        }
+    }
+
+    /**
+     * Target URL of a link. Wikilinks use the url in the linked note's frontmatter.
+     */
+    private getLinkUrl(link: LinkAtPosition, sourcePath: string): string | undefined {
+        if (link.linkpath === undefined) return link.url;
+
+        const file = this.app.metadataCache.getFirstLinkpathDest(link.linkpath, sourcePath);
+        const frontmatterUrl = file ? this.app.metadataCache.getFileCache(file)?.frontmatter?.url : undefined;
+        return typeof frontmatterUrl === "string" ? frontmatterUrl : undefined;
+    }
+
+    /**
+     * Replaces the link under the cursor with its bare URL
+     */
+    private unshortenLinkAtCursor(editor: Editor, sourcePath: string) {
+        const link = findLinkAtPosition(editor.getValue(), editor.posToOffset(editor.getCursor()));
+        if (!link) {
+            new Notice("No link under the cursor");
+            return;
+        }
+
+        const url = this.getLinkUrl(link, sourcePath);
+        if (!url) {
+            new Notice("This link has no URL to restore");
+            return;
+        }
+
+        editor.replaceRange(url, editor.offsetToPos(link.from), editor.offsetToPos(link.to), SHORTEN_ORIGIN);
+    }
+
+    /**
+     * Adds actions for the link under the cursor, if its URL matches a pattern
+     */
+    private addLinkMenuItems(menu: Menu, editor: Editor, sourcePath: string) {
+        const content = editor.getValue();
+        const link = findLinkAtPosition(content, editor.posToOffset(editor.getCursor()));
+        const url = link ? this.getLinkUrl(link, sourcePath) : undefined;
+        const match = url ? findMatchingPattern(url, this.matcher, this.getMatchOptions()) : null;
+        if (!link || !url || !match) return;
+
+        const edit: LinkEdit = {
+            from: link.from,
+            to: link.to,
+            original: content.slice(link.from, link.to),
+            url,
+            replacement: match.output,
+            patternId: match.pattern.id,
+            format: match.format,
+            note: match.note,
+        };
+
+        menu.addSeparator();
+        menu.addItem(item => item
+            .setTitle("Copy URL")
+            .setIcon("copy")
+            .onClick(() => this.copyToClipboard(url)));
+        menu.addItem(item => item
+            .setTitle("Copy link label")
+            .setIcon("copy")
+            .onClick(() => this.copyToClipboard(link.label)));
+        menu.addItem(item => item
+            .setTitle("Copy as rich text")
+            .setIcon("clipboard-copy")
+            .onClick(() => this.copyAsRichText(link.label, url)));
+        if (edit.replacement !== edit.original) {
+            menu.addItem(item => item
+                .setTitle("Shorten link again")
+                .setIcon("refresh-cw")
+                .onClick(() => this.reshortenLink(editor, edit, sourcePath)));
+        }
+        menu.addItem(item => item
+            .setTitle(`Edit pattern "${match.pattern.name}"`)
+            .setIcon("pencil")
+            .onClick(() => this.openPatternEditor(match.pattern)));
+    }
+
+    private async copyToClipboard(text: string) {
+        try {
+            await navigator.clipboard.writeText(text);
+        } catch (e) {
+            new Notice("Could not write to the clipboard");
+        }
+    }
+
+    /**
+     * Copies a link as HTML (for rich text editors) with a markdown fallback
+     */
+    private async copyAsRichText(label: string, url: string) {
+        const html = formatOutput("html", label, url, "").output;
+        const plain = formatOutput("markdown", label, url, "").output;
+        try {
+            await navigator.clipboard.write([new ClipboardItem({
+                "text/html": new Blob([html], { type: "text/html" }),
+                "text/plain": new Blob([plain], { type: "text/plain" }),
+            })]);
+        } catch (e) {
+            new Notice("Could not write to the clipboard");
+        }
+    }
+
+    /**
+     * Replaces an existing link with the current output of its pattern
+     */
+    private async reshortenLink(editor: Editor, edit: LinkEdit, sourcePath: string) {
+        const [resolved] = await this.resolveTitles([edit]);
+        const from = editor.offsetToPos(resolved.from);
+        const to = editor.offsetToPos(resolved.to);
+        if (editor.getRange(from, to) !== resolved.original) {
+            new Notice("Link changed while fetching page titles, please try again");
+            return;
+        }
+
+        editor.replaceRange(resolved.replacement, from, to, SHORTEN_ORIGIN);
+        await this.onLinksShortened([resolved], sourcePath);
+    }
+
+    /**
+     * Opens the pattern editor for a pattern from the settings
+     */
+    openPatternEditor(pattern?: LinkPattern, onSaved?: () => void) {
+        new PatternEditModal(
+            this.app,
+            pattern,
+            async (updated) => {
+                await this.savePattern(updated, pattern);
+                onSaved?.();
+            },
+            this.getMatchOptions()
+        ).open();
+    }
+
+    /**
+     * Adds a new pattern, or replaces an existing one (remembering its old template)
+     */
+    async savePattern(pattern: LinkPattern, existingPattern?: LinkPattern): Promise<void> {
+        if (existingPattern) {
+            const index = this.settings.patterns.findIndex(p => p.id === existingPattern.id);
+            if (index >= 0) {
+                this.settings.patterns[index] = recordTemplateChange(existingPattern, pattern);
+            }
+        } else {
+            this.settings.patterns.push(pattern);
+        }
+        await this.saveSettings();
+    }
+
+    /**
+     * Fetches page titles for edits whose output uses ${title}
+     */
+    async resolveTitles(edits: LinkEdit[]): Promise<LinkEdit[]> {
+        return Promise.all(edits.map(async edit => ({
+            ...edit,
+            replacement: await this.titleFetcher.resolve(edit.replacement, edit.url, edit.format),
+        })));
+    }
+
+    /**
+     * Shortens every matching bare URL in the note, or only inside the
+     * current selections, as a single undoable transaction
+     */
+    async shortenLinksInEditor(editor: Editor) {
+        // Scan the whole note so code blocks and links around the selection are respected
+        const content = editor.getValue();
+        let edits = collectLinkEdits(content, this.matcher, this.getMatchOptions());
+
+        if (editor.somethingSelected()) {
+            const selectedRanges = editor.listSelections().map(selection => {
+                const anchor = editor.posToOffset(selection.anchor);
+                const head = editor.posToOffset(selection.head);
+                return [Math.min(anchor, head), Math.max(anchor, head)];
+            });
+            edits = edits.filter(edit =>
+                selectedRanges.some(([from, to]) => edit.from >= from && edit.to <= to)
+            );
+        }
+
+        if (edits.length === 0) {
+            new Notice("No links to shorten");
+            return;
+        }
+
+        edits = await this.resolveTitles(edits);
+        if (editor.getValue() !== content) {
+            new Notice("Note changed while fetching page titles, please try again");
+            return;
+        }
+
+        editor.transaction({
+            changes: edits.map(edit => ({
+                from: editor.offsetToPos(edit.from),
+                to: editor.offsetToPos(edit.to),
+                text: edit.replacement,
+            })),
+        });
+
+        new Notice(`Shortened ${edits.length} link${edits.length === 1 ? "" : "s"}`);
+        await this.onLinksShortened(edits, this.app.workspace.getActiveFile()?.path ?? "");
+    }
+
+    /**
+     * Follow-up work after links were inserted into a note: creating
+     * linked notes and recording statistics and history
+     */
+    async onLinksShortened(edits: LinkEdit[], sourcePath: string): Promise<void> {
+        if (edits.length === 0) return;
+
+        await this.ensureLinkNotes(edits, sourcePath);
+
+        const usage = recordUsage(this.settings, edits, sourcePath, Date.now());
+        this.settings.stats = usage.stats;
+        this.settings.history = usage.history;
+        // Saved directly, usage data doesn't need the editor extensions refreshed
+        await this.saveData(this.settings);
+    }
+
+    /**
+     * Creates the notes that inserted wikilinks point to, or adds the
+     * missing frontmatter to notes that already exist
+     */
+    private async ensureLinkNotes(edits: LinkEdit[], sourcePath: string): Promise<void> {
+        const notes = edits.map(edit => edit.note).filter((note): note is LinkNote => !!note);
+        for (const note of notes) {
+            try {
+                await this.ensureLinkNote(note, sourcePath);
+            } catch (e) {
+                console.error(`Pattern Link Shortener: could not update note ${note.path}`, e);
+                new Notice(`Could not create note ${note.path}`);
+            }
+        }
+    }
+
+    private async ensureLinkNote(note: LinkNote, sourcePath: string): Promise<void> {
+        const linkpath = note.path.replace(/\.md$/i, "");
+        let file = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+
+        if (!file) {
+            // Bare note names go wherever new notes are created by default
+            let path = normalizePath(note.path);
+            if (!path.includes("/")) {
+                const parent = this.app.fileManager.getNewFileParent(sourcePath);
+                path = normalizePath(`${parent.path}/${path}`);
+            }
+
+            // The metadata cache may not know about a note created moments ago
+            const existing = this.app.vault.getAbstractFileByPath(path);
+            if (existing instanceof TFile) {
+                file = existing;
+            } else {
+                const folder = path.substring(0, path.lastIndexOf("/"));
+                if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+                    await this.app.vault.createFolder(folder);
+                }
+                file = await this.app.vault.create(path, await this.renderNoteTemplate(note));
+            }
+        }
+
+        await this.app.fileManager.processFrontMatter(file, frontmatter => {
+            for (const [key, value] of Object.entries(note.frontmatter)) {
+                if (frontmatter[key] === undefined) {
+                    frontmatter[key] = value;
+                }
+            }
+        });
+    }
+
+    /**
+     * Content for a new link note: the pattern's note template with placeholders filled in
+     */
+    private async renderNoteTemplate(note: LinkNote): Promise<string> {
+        if (!note.templatePath) return "";
+
+        const template = this.app.vault.getAbstractFileByPath(normalizePath(note.templatePath));
+        if (!(template instanceof TFile)) {
+            new Notice(`Note template ${note.templatePath} not found`);
+            return "";
+        }
+
+        const content = await this.app.vault.read(template);
+        return note.values ? renderTemplate(content, note.values, { lookupTables: this.settings.lookupTables }) : content;
+    }
+
+    /**
+     * Merges patterns from JSON into the settings and reports the outcome
+     */
+    async importPatterns(json: string, strategy: ImportConflictStrategy, source: string): Promise<void> {
+        const { patterns, errors } = parsePatternImport(json);
+        if (errors.length > 0) {
+            console.warn(`Pattern Link Shortener: import from ${source} skipped invalid entries`, errors);
+        }
+        if (patterns.length === 0) {
+            new Notice(`No valid patterns in ${source}${errors.length ? `: ${errors[0]}` : ""}`);
+            return;
+        }
+
+        const result = mergePatterns(this.settings.patterns, patterns, strategy);
+        this.settings.patterns = result.patterns;
+        await this.saveSettings();
+
+        new Notice(
+            `Imported patterns from ${source}: ${result.added} added, ${result.replaced} replaced, ` +
+            `${result.skipped} skipped, ${errors.length} invalid`
+        );
+    }
+
+    /**
+     * Writes all patterns to the pattern file in the vault
+     */
+    async exportPatternsToFile(): Promise<void> {
+        const path = normalizePath(this.settings.patternFilePath);
+        const json = exportPatterns(this.settings.patterns);
+        const existing = this.app.vault.getAbstractFileByPath(path);
+
+        if (existing instanceof TFile) {
+            await this.app.vault.modify(existing, json);
+        } else {
+            await this.app.vault.create(path, json);
+        }
+        new Notice(`Exported ${this.settings.patterns.length} pattern(s) to ${path}`);
+    }
+
+    /**
+     * Reads patterns from the pattern file in the vault and merges them
+     * (the file wins on conflicts), if syncing is enabled
+     */
+    async syncPatternsFromFile(): Promise<void> {
+        if (!this.settings.syncPatternFile) return;
+
+        const path = normalizePath(this.settings.patternFilePath);
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) return;
+
+        // Runs on startup and on every save of the file, so only changes and errors are reported
+        const { patterns, errors } = parsePatternImport(await this.app.vault.read(file));
+        if (errors.length > 0) {
+            console.warn(`Pattern Link Shortener: sync from ${path} skipped invalid entries`, errors);
+            new Notice(`Invalid patterns in ${path}: ${errors[0]}${errors.length > 1 ? ` (and ${errors.length - 1} more)` : ""}`);
+        }
+
+        const result = mergePatterns(this.settings.patterns, patterns, "replace");
+        if (arePatternsEqual(result.patterns, this.settings.patterns)) return;
+
+        this.settings.patterns = result.patterns;
+        await this.saveSettings();
+        new Notice(`Updated patterns from ${path}`);
     }
 
     async loadSettings() {
-        const loadedData = await this.loadData();
-        this.settings = Object.assign({}, getDefaultSettings(), loadedData);
+        const migration = migrateSettings(await this.loadData());
+        this.settings = Object.assign({}, getDefaultSettings(), migration?.data);
+        this.matcher = this.createMatcher();
+
+        if (migration && getSettingsVersion(migration.data) > CURRENT_SETTINGS_VERSION) {
+            console.warn("Pattern Link Shortener: settings were saved by a newer version of the plugin");
+        }
+
+        // Persist migrated data so old fields don't linger
+        if (migration?.migrated) {
+            await this.saveSettings();
+        }
     }
 
     async saveSettings() {
         await this.saveData(this.settings);
+        this.matcher = this.createMatcher();
+        this.refreshEditorExtensions();
+    }
+
+    private createMatcher(): PatternMatcher {
+        const matcher = new PatternMatcher(this.settings.patterns, {
+            onSlowPattern: (pattern, elapsedMs) => this.disableSlowPattern(pattern, elapsedMs),
+        });
+        this.reportSkippedPatterns(matcher);
+        return matcher;
+    }
+
+    /**
+     * Tells the user about patterns the matcher skips, once per pattern and reason
+     */
+    private reportSkippedPatterns(matcher: PatternMatcher) {
+        const skipped = matcher.getSkippedPatterns();
+        const keys = skipped.map(({ pattern, reason }) => `${pattern.id}\n${reason}`);
+        const unreported = skipped.filter((_, i) => !this.reportedSkippedPatterns.has(keys[i]));
+        this.reportedSkippedPatterns = new Set(keys);
+
+        if (unreported.length > 0) {
+            new Notice(
+                "Pattern Link Shortener: not using " +
+                unreported.map(({ pattern, reason }) => `"${pattern.name}" (${reason})`).join(", ")
+            );
+        }
+    }
+
+    /**
+     * Disables a pattern whose regex took too long to match, so it can't freeze the editor
+     */
+    private disableSlowPattern(pattern: LinkPattern, elapsedMs: number) {
+        this.settings.patterns = this.settings.patterns.map(p => p.id === pattern.id ? { ...p, enabled: false } : p);
+        new Notice(
+            `Pattern "${pattern.name}" took ${Math.round(elapsedMs)} ms to match and was disabled. ` +
+            "Check its regex for overlapping alternatives like (a|ab)*"
+        );
+        this.saveSettings();
+    }
+
+    /**
+     * Rebuilds the editor extensions so open editors pick up changed settings and patterns
+     */
+    private refreshEditorExtensions() {
+        this.editorExtensions.length = 0;
+        if (this.settings.displayShortenedUrls) {
+            this.editorExtensions.push(createUrlDecorations(() => this.matcher, () => this.getMatchOptions()));
+        }
+        this.app.workspace.updateOptions();
     }
 }
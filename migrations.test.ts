@@ -0,0 +1,69 @@
+import { CURRENT_SETTINGS_VERSION, SETTINGS_MIGRATIONS, SettingsMigration, applyMigrations, getSettingsVersion, migrateSettings } from './migrations';
+import { LinkPattern } from './types';
+import { formatLink } from './utils';
+
+describe('migrateSettings', () => {
+    it('should return null when nothing is stored', () => {
+        expect(migrateSettings(null)).toBeNull();
+        expect(migrateSettings(undefined)).toBeNull();
+    });
+
+    it('should turn a v1 supportedDomain into a JIRA pattern', () => {
+        const result = migrateSettings({ supportedDomain: 'examplecompany.atlassian.net' });
+        expect(result?.migrated).toBe(true);
+        expect(result?.data.version).toBe(2);
+        expect(result?.data).not.toHaveProperty('supportedDomain');
+
+        const patterns = result?.data.patterns as LinkPattern[];
+        expect(patterns).toHaveLength(1);
+        expect(patterns[0].domainPattern).toBe('examplecompany.atlassian.net');
+        expect(formatLink('https://examplecompany.atlassian.net/browse/DEV-1', patterns))
+            .toBe('[DEV-1](https://examplecompany.atlassian.net/browse/DEV-1)');
+    });
+
+    it('should keep wildcard v1 domains', () => {
+        const result = migrateSettings({ supportedDomain: ' *.atlassian.net ' });
+        expect((result?.data.patterns as LinkPattern[])[0].domainPattern).toBe('*.atlassian.net');
+    });
+
+    it('should not add patterns for an empty v1 domain', () => {
+        const result = migrateSettings({ supportedDomain: '' });
+        expect(result?.data).toEqual({ version: 2 });
+    });
+
+    it('should leave current settings untouched', () => {
+        const stored = { version: 2, patterns: [], shortenUrlsInText: true };
+        expect(migrateSettings(stored)).toEqual({ data: stored, migrated: false });
+    });
+});
+
+describe('applyMigrations', () => {
+    const steps: SettingsMigration[] = [
+        { version: 3, migrate: data => ({ ...data, log: [...(data.log as string[]), 'v3'] }) },
+        { version: 2, migrate: data => ({ ...data, log: [...(data.log as string[]), 'v2'] }) },
+    ];
+
+    it('should run steps in version order', () => {
+        expect(applyMigrations({ log: [] }, steps).data).toEqual({ version: 3, log: ['v2', 'v3'] });
+    });
+
+    it('should skip steps the data already has', () => {
+        expect(applyMigrations({ version: 2, log: [] }, steps).data).toEqual({ version: 3, log: ['v3'] });
+    });
+
+    it('should not downgrade newer data', () => {
+        expect(applyMigrations({ version: 4, log: [] }, steps)).toEqual({ data: { version: 4, log: [] }, migrated: false });
+    });
+});
+
+describe('SETTINGS_MIGRATIONS', () => {
+    it('should end at the current settings version', () => {
+        const versions = SETTINGS_MIGRATIONS.map(step => step.version);
+        expect(Math.max(...versions)).toBe(CURRENT_SETTINGS_VERSION);
+        expect(new Set(versions).size).toBe(versions.length);
+    });
+
+    it('should treat data without a version as v1', () => {
+        expect(getSettingsVersion({})).toBe(1);
+    });
+});
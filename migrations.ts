@@ -0,0 +1,83 @@
+import { LegacyPluginSettings } from './types';
+import { createPatternFromPreset } from './presets';
+import { sanitizeDomain } from './utils';
+
+/** Settings schema version written by this release */
+export const CURRENT_SETTINGS_VERSION = 2;
+
+/** Raw data as stored by loadData(), before defaults are applied */
+export type StoredSettings = Record<string, unknown>;
+
+/**
+ * One step of the settings migration chain.
+ * Steps run in order; each one upgrades data from `version - 1` to `version`.
+ */
+export interface SettingsMigration {
+    /** Schema version produced by this step */
+    version: number;
+
+    migrate: (data: StoredSettings) => StoredSettings;
+}
+
+/**
+ * v1 (JIRA Links Shortener) had a single supportedDomain, turn it into a JIRA pattern
+ */
+function migrateV1ToV2(data: StoredSettings): StoredSettings {
+    const { supportedDomain, ...rest } = data as StoredSettings & Partial<LegacyPluginSettings>;
+    const domain = typeof supportedDomain === 'string' ? sanitizeDomain(supportedDomain.trim()) : '';
+
+    const migrated: StoredSettings = { ...rest, version: 2 };
+    if (domain) {
+        migrated.patterns = [
+            createPatternFromPreset('jira', {
+                domainPattern: domain,
+                description: 'Migrated from the supported domain setting',
+            }),
+        ];
+    }
+
+    return migrated;
+}
+
+/**
+ * Ordered migration steps. Add a step here whenever the settings schema changes.
+ */
+export const SETTINGS_MIGRATIONS: SettingsMigration[] = [
+    { version: 2, migrate: migrateV1ToV2 },
+];
+
+/**
+ * Reads the schema version of stored data. Data without a version field predates v2.
+ */
+export function getSettingsVersion(data: StoredSettings): number {
+    return typeof data.version === 'number' ? data.version : 1;
+}
+
+/**
+ * Runs every step newer than the data's version, in order
+ */
+export function applyMigrations(
+    data: StoredSettings,
+    migrations: SettingsMigration[]
+): { data: StoredSettings; migrated: boolean } {
+    let current = data;
+    let migrated = false;
+
+    for (const step of [...migrations].sort((a, b) => a.version - b.version)) {
+        if (getSettingsVersion(current) < step.version) {
+            current = { ...step.migrate(current), version: step.version };
+            migrated = true;
+        }
+    }
+
+    return { data: current, migrated };
+}
+
+/**
+ * Brings stored plugin data up to the current schema.
+ * Returns null for a fresh install (nothing stored yet).
+ */
+export function migrateSettings(stored: unknown): { data: StoredSettings; migrated: boolean } | null {
+    if (!stored || typeof stored !== 'object') return null;
+    return applyMigrations(stored as StoredSettings, SETTINGS_MIGRATIONS);
+}
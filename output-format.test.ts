@@ -0,0 +1,74 @@
+import { formatOutput, formatWikilink, renderNotePath, sanitizeNoteName, splitLinkTemplate } from './output-format';
+
+describe('splitLinkTemplate', () => {
+    it('should split a markdown link template into label and target', () => {
+        expect(splitLinkTemplate('[${1}](${url})')).toEqual({ label: '${1}', target: '${url}' });
+        expect(splitLinkTemplate('[${1|upper} - ${2}](${cleanUrl})')).toEqual({ label: '${1|upper} - ${2}', target: '${cleanUrl}' });
+    });
+
+    it('should treat other templates as the label for ${url}', () => {
+        expect(splitLinkTemplate('${1}')).toEqual({ label: '${1}', target: '${url}' });
+        expect(splitLinkTemplate('See [${1}](${url}) now')).toEqual({ label: 'See [${1}](${url}) now', target: '${url}' });
+    });
+});
+
+describe('sanitizeNoteName', () => {
+    it('should keep ordinary names', () => {
+        expect(sanitizeNoteName('DEV-123')).toBe('DEV-123');
+    });
+
+    it('should replace characters not allowed in note names', () => {
+        expect(sanitizeNoteName('owner/repo#42')).toBe('owner repo 42');
+        expect(sanitizeNoteName('[a]: b|c')).toBe('a b c');
+    });
+});
+
+describe('renderNotePath', () => {
+    const values = {
+        '1': { value: 'DEV-123', raw: 'DEV-123' },
+        repo: { value: 'team/app', raw: 'team%2Fapp' },
+    };
+
+    it('should render placeholders into the path', () => {
+        expect(renderNotePath('Tickets/${1}.md', values)).toBe('Tickets/DEV-123.md');
+    });
+
+    it('should add the .md extension', () => {
+        expect(renderNotePath('Tickets/${1|lower}', values)).toBe('Tickets/dev-123.md');
+    });
+
+    it('should sanitize segments and drop empty or relative ones', () => {
+        expect(renderNotePath('/Repos//../${repo}: ${1}', values)).toBe('Repos/team/app DEV-123.md');
+        expect(renderNotePath('${2}', values)).toBe('Untitled link.md');
+    });
+});
+
+describe('formatWikilink', () => {
+    it('should only add an alias when the label differs', () => {
+        expect(formatWikilink('DEV-123', 'DEV-123')).toBe('[[DEV-123]]');
+        expect(formatWikilink('owner repo 42', 'owner/repo#42')).toBe('[[owner repo 42|owner/repo#42]]');
+    });
+});
+
+describe('formatOutput', () => {
+    const url = 'https://jira.example.com/browse/DEV-123';
+
+    it('should render markdown links', () => {
+        expect(formatOutput('markdown', 'DEV-123', url, 'JIRA')).toEqual({ output: `[DEV-123](${url})` });
+        expect(formatOutput('markdownTitle', 'DEV-123', url, 'My "JIRA"'))
+            .toEqual({ output: `[DEV-123](${url} "My \\"JIRA\\"")` });
+    });
+
+    it('should render a wikilink backed by a note with the URL', () => {
+        expect(formatOutput('wikilink', 'DEV-123', url, 'JIRA')).toEqual({
+            output: '[[DEV-123]]',
+            note: { path: 'DEV-123.md', frontmatter: { url } },
+        });
+    });
+
+    it('should render plain text and HTML', () => {
+        expect(formatOutput('text', 'DEV-123', url, 'JIRA')).toEqual({ output: 'DEV-123' });
+        expect(formatOutput('html', 'a <b> & "c"', 'https://x.com/?a=1&b=2', 'X'))
+            .toEqual({ output: '<a href="https://x.com/?a=1&amp;b=2">a &lt;b&gt; &amp; &quot;c&quot;</a>' });
+    });
+});
@@ -0,0 +1,100 @@
+import { LinkNote, OutputFormat } from './types';
+import { TemplateContext, TemplateValues, renderTemplate } from './template';
+
+/**
+ * Display names for the output formats, in the order shown in settings
+ */
+export const OUTPUT_FORMAT_NAMES: Record<OutputFormat, string> = {
+    template: 'As written in template',
+    markdown: 'Markdown link',
+    markdownTitle: 'Markdown link with title',
+    wikilink: 'Wikilink to note',
+    text: 'Plain text',
+    html: 'HTML link',
+};
+
+/**
+ * A template split into the link label and link target
+ */
+export interface LinkTemplateParts {
+    label: string;
+    target: string;
+}
+
+/**
+ * Splits a "[label](target)" template into its parts.
+ * Other templates are treated as a label for ${url}.
+ */
+export function splitLinkTemplate(template: string): LinkTemplateParts {
+    const match = template.match(/^\[([\s\S]*)\]\(([^()\s]*)\)$/);
+    return match
+        ? { label: match[1], target: match[2] }
+        : { label: template, target: '${url}' };
+}
+
+/**
+ * Removes characters that can't be used in note names or wikilinks
+ */
+export function sanitizeNoteName(name: string): string {
+    return name.replace(/[\\/:*?"<>|#^[\]]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Escapes text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders a note path template into a vault path ending in .md.
+ * Each folder and file name is sanitized, so captured values can't produce invalid paths.
+ */
+export function renderNotePath(pathTemplate: string, values: TemplateValues, context: TemplateContext = {}): string {
+    const path = renderTemplate(pathTemplate, values, context)
+        .split('/')
+        .map(sanitizeNoteName)
+        .filter(segment => segment && segment !== '.' && segment !== '..')
+        .join('/');
+    return /\.md$/i.test(path) ? path : `${path || 'Untitled link'}.md`;
+}
+
+/**
+ * Builds a wikilink, adding an alias if the label differs from the note name
+ */
+export function formatWikilink(linkpath: string, label: string): string {
+    return linkpath === label ? `[[${linkpath}]]` : `[[${linkpath}|${label}]]`;
+}
+
+/**
+ * Renders a label and URL in one of the non-template output formats.
+ * For wikilinks, the returned note should be created (or updated) with the URL in its frontmatter.
+ */
+export function formatOutput(
+    format: Exclude<OutputFormat, 'template'>,
+    label: string,
+    url: string,
+    title: string
+): { output: string; note?: LinkNote } {
+    switch (format) {
+        case 'markdown':
+            return { output: `[${label}](${url})` };
+        case 'markdownTitle':
+            return { output: `[${label}](${url} "${title.replace(/"/g, '\\"')}")` };
+        case 'wikilink': {
+            const noteName = sanitizeNoteName(label) || 'Untitled link';
+            return {
+                output: formatWikilink(noteName, label),
+                note: { path: `${noteName}.md`, frontmatter: { url } },
+            };
+        }
+        case 'text':
+            return { output: label };
+        case 'html':
+            return { output: `<a href="${escapeHtml(url)}">${escapeHtml(label)}</a>` };
+    }
+}
@@ -0,0 +1,183 @@
+import { LinkPattern } from './types';
+import { arePatternsEqual, exportPatterns, mergePatterns, parsePatternImport } from './pattern-io';
+import { createDefaultCleanup } from './url-cleanup';
+import { matchPattern } from './utils';
+
+function pattern(id: string, name: string, overrides: Partial<LinkPattern> = {}): LinkPattern {
+    return {
+        id,
+        name,
+        enabled: true,
+        domainPattern: 'example.com',
+        pathPattern: '\\/(\\d+)',
+        outputTemplate: '[${1}](${url})',
+        ...overrides,
+    };
+}
+
+describe('exportPatterns / parsePatternImport', () => {
+    it('should round-trip exported patterns', () => {
+        const patterns = [pattern('a', 'A'), pattern('b', 'B', { enabled: false, description: 'b' })];
+        expect(parsePatternImport(exportPatterns(patterns))).toEqual({ patterns, errors: [] });
+    });
+
+    it('should accept a bare array and fill in id and enabled', () => {
+        const json = JSON.stringify([{ name: 'A', domainPattern: 'a.com', pathPattern: '\\/x', outputTemplate: '[A](${url})' }]);
+        const { patterns, errors } = parsePatternImport(json);
+        expect(errors).toEqual([]);
+        expect(patterns[0].id).toMatch(/^pattern_/);
+        expect(patterns[0].enabled).toBe(true);
+    });
+
+    it('should report invalid JSON', () => {
+        const result = parsePatternImport('{nope');
+        expect(result.patterns).toEqual([]);
+        expect(result.errors[0]).toMatch(/^Invalid JSON/);
+    });
+
+    it('should reject documents without a patterns array', () => {
+        expect(parsePatternImport('{"version": 1}').errors).toHaveLength(1);
+        expect(parsePatternImport('42').errors).toHaveLength(1);
+    });
+
+    it('should skip entries that fail schema validation', () => {
+        const json = JSON.stringify([
+            pattern('ok', 'OK'),
+            { name: 'No domain', pathPattern: 'x', outputTemplate: '${url}' },
+            { ...pattern('bad', 'Bad enabled'), enabled: 'yes' },
+            'not a pattern',
+            { ...pattern('fmt', 'Bad format'), outputFormat: 'pdf' },
+            { ...pattern('note', 'Bad note'), noteAction: { enabled: true } },
+        ]);
+        const { patterns, errors } = parsePatternImport(json);
+        expect(patterns.map(p => p.id)).toEqual(['ok']);
+        expect(errors).toEqual([
+            'Pattern 2 "No domain": missing "domainPattern"',
+            'Pattern 3 "Bad enabled": "enabled" must be true or false',
+            'Pattern 4: not an object',
+            'Pattern 5 "Bad format": unknown outputFormat "pdf"',
+            'Pattern 6 "Bad note": "noteAction" must have "enabled" and "pathTemplate"',
+        ]);
+    });
+
+    it('should skip entries with invalid domains, regexes or templates', () => {
+        const json = JSON.stringify([
+            pattern('d', 'Bad domain', { domainPattern: '!example.com' }),
+            pattern('a', 'Bad path', { pathPattern: '(' }),
+            pattern('b', 'Bad query', { queryPattern: '[' }),
+            pattern('c', 'Bad template', { outputTemplate: '[${1|shout}](${url})' }),
+            pattern('e', 'Nested quantifier', { pathPattern: '\\/(\\w+)*$' }),
+            pattern('f', 'Title note', { outputFormat: 'wikilink', outputTemplate: '[${title}](${url})' }),
+        ]);
+        const { patterns, errors } = parsePatternImport(json);
+        expect(patterns).toEqual([]);
+        expect(errors[0]).toContain('invalid domainPattern');
+        expect(errors[1]).toContain('invalid pathPattern');
+        expect(errors[2]).toContain('invalid queryPattern');
+        expect(errors[3]).toContain('invalid outputTemplate');
+        expect(errors[4]).toContain('invalid pathPattern: Nested quantifier');
+        expect(errors[5]).toContain('cannot use ${title}');
+    });
+
+    it('should skip entries with malformed cleanup or note options', () => {
+        const json = JSON.stringify([
+            { ...pattern('a', 'Filter'), cleanup: { queryFilter: 'some' } },
+            { ...pattern('b', 'Params'), cleanup: { queryParams: 'utm_*' } },
+            { ...pattern('c', 'Rewrites'), cleanup: { hostRewrites: [{ from: 'a.com' }] } },
+            { ...pattern('d', 'Flag'), cleanup: { forceHttps: 'yes' } },
+            { ...pattern('e', 'Array'), cleanup: [] },
+            { ...pattern('f', 'Note'), noteAction: { enabled: true, pathTemplate: '${1}', templatePath: 3 } },
+        ]);
+        const { patterns, errors } = parsePatternImport(json);
+        expect(patterns).toEqual([]);
+        expect(errors).toEqual([
+            'Pattern 1 "Filter": unknown cleanup.queryFilter "some"',
+            'Pattern 2 "Params": "cleanup.queryParams" must be a list of strings',
+            'Pattern 3 "Rewrites": "cleanup.hostRewrites" must be a list of { from, to } pairs',
+            'Pattern 4 "Flag": "cleanup.forceHttps" must be true or false',
+            'Pattern 5 "Array": "cleanup" must be an object',
+            'Pattern 6 "Note": "noteAction.templatePath" must be a string',
+        ]);
+    });
+
+    it('should fill in missing cleanup options with defaults', () => {
+        const json = JSON.stringify([{ ...pattern('a', 'A'), cleanup: { dropFragment: true } }]);
+        const { patterns, errors } = parsePatternImport(json);
+        expect(errors).toEqual([]);
+        expect(patterns[0].cleanup).toEqual({ ...createDefaultCleanup(), dropFragment: true });
+        expect(matchPattern('https://example.com/1#x', patterns[0])).toBe('[1](https://example.com/1#x)');
+    });
+});
+
+describe('mergePatterns', () => {
+    const existing = [pattern('a', 'JIRA'), pattern('b', 'GitHub')];
+
+    it('should add patterns without conflicts', () => {
+        const result = mergePatterns(existing, [pattern('c', 'GitLab')], 'skip');
+        expect(result.patterns.map(p => p.id)).toEqual(['a', 'b', 'c']);
+        expect(result.added).toBe(1);
+    });
+
+    it('should skip conflicts by id or name', () => {
+        const result = mergePatterns(existing, [pattern('a', 'Other'), pattern('x', 'github')], 'skip');
+        expect(result.patterns).toEqual(existing);
+        expect(result.skipped).toBe(2);
+    });
+
+    it('should replace conflicts in place', () => {
+        const updated = pattern('a', 'JIRA', { domainPattern: 'jira.example.com' });
+        const result = mergePatterns(existing, [updated], 'replace');
+        expect(result.patterns).toEqual([updated, existing[1]]);
+        expect(result.replaced).toBe(1);
+    });
+
+    it('should keep the id and earlier templates of a pattern replaced by name', () => {
+        const local = [pattern('a', 'JIRA', { previousTemplates: ['${1}'] })];
+        const result = mergePatterns(local, [pattern('x', 'jira', { outputTemplate: '[JIRA ${1}](${url})' })], 'replace');
+        expect(result.patterns).toEqual([pattern('a', 'jira', {
+            outputTemplate: '[JIRA ${1}](${url})',
+            previousTemplates: ['[${1}](${url})', '${1}'],
+        })]);
+    });
+
+    it('should duplicate conflicts with a new id and name', () => {
+        const result = mergePatterns(existing, [pattern('b', 'GitHub')], 'duplicate');
+        expect(result.patterns).toHaveLength(3);
+        expect(result.patterns[2].id).not.toBe('b');
+        expect(result.patterns[2].name).toBe('GitHub (2)');
+    });
+
+    it('should not modify the existing list', () => {
+        const copy = [...existing];
+        mergePatterns(existing, [pattern('c', 'GitLab')], 'replace');
+        expect(existing).toEqual(copy);
+    });
+});
+
+describe('arePatternsEqual', () => {
+    it('should ignore the order of fields', () => {
+        const { outputTemplate, pathPattern, ...rest } = pattern('a', 'A');
+        const reordered = { outputTemplate, pathPattern, ...rest };
+        expect(arePatternsEqual([pattern('a', 'A')], [reordered])).toBe(true);
+    });
+
+    it('should detect changed, added and reordered patterns', () => {
+        expect(arePatternsEqual([pattern('a', 'A')], [pattern('a', 'A', { enabled: false })])).toBe(false);
+        expect(arePatternsEqual([pattern('a', 'A')], [pattern('a', 'A'), pattern('b', 'B')])).toBe(false);
+        expect(arePatternsEqual([pattern('a', 'A'), pattern('b', 'B')], [pattern('b', 'B'), pattern('a', 'A')])).toBe(false);
+    });
+
+    it('should treat an imported file that matches the settings as unchanged', () => {
+        const existing = [pattern('a', 'A'), pattern('b', 'B')];
+        const { patterns } = parsePatternImport(exportPatterns(existing));
+        expect(arePatternsEqual(mergePatterns(existing, patterns, 'replace').patterns, existing)).toBe(true);
+    });
+
+    it('should leave patterns unchanged when the same file without ids is synced twice', () => {
+        const file = JSON.stringify({ patterns: [{ ...pattern('', 'A'), id: undefined }] });
+        const first = mergePatterns([], parsePatternImport(file).patterns, 'replace').patterns;
+        const withHistory = [{ ...first[0], previousTemplates: ['${1}'] }];
+        const second = mergePatterns(withHistory, parsePatternImport(file).patterns, 'replace').patterns;
+        expect(arePatternsEqual(second, withHistory)).toBe(true);
+    });
+});
@@ -0,0 +1,257 @@
+import { ImportConflictStrategy, LinkPattern } from './types';
+import { OUTPUT_FORMAT_NAMES } from './output-format';
+import { generatePatternId } from './presets';
+import { validateNoteNameTemplates, validateOutputTemplate, validateRegexPattern } from './utils';
+import { validateDomainPattern } from './domain-pattern';
+import { createDefaultCleanup } from './url-cleanup';
+import { recordTemplateChange } from './link-relabel';
+
+/** Format version of exported pattern files */
+export const PATTERN_EXPORT_VERSION = 1;
+
+export interface PatternImportResult {
+    /** Patterns that passed validation */
+    patterns: LinkPattern[];
+
+    /** One message per rejected pattern (or for the whole file) */
+    errors: string[];
+}
+
+export interface PatternMergeResult {
+    patterns: LinkPattern[];
+    added: number;
+    replaced: number;
+    skipped: number;
+}
+
+const REQUIRED_STRING_FIELDS = ['name', 'domainPattern', 'pathPattern', 'outputTemplate'] as const;
+const OPTIONAL_STRING_FIELDS = ['id', 'queryPattern', 'fragmentPattern', 'description'] as const;
+const CLEANUP_FLAGS = ['dropFragment', 'forceHttps', 'replaceUrl'] as const;
+const QUERY_FILTERS = ['none', 'allowlist', 'denylist'];
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Serializes patterns as a shareable JSON document
+ */
+export function exportPatterns(patterns: LinkPattern[]): string {
+    return JSON.stringify({ version: PATTERN_EXPORT_VERSION, patterns }, null, 2);
+}
+
+/**
+ * Validates imported cleanup options, returns an error message or null.
+ * Missing fields are allowed and filled with defaults.
+ */
+function validateImportedCleanup(value: unknown): string | null {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return '"cleanup" must be an object';
+    }
+
+    const cleanup = value as Record<string, unknown>;
+    if (cleanup.queryFilter !== undefined && !QUERY_FILTERS.includes(cleanup.queryFilter as string)) {
+        return `unknown cleanup.queryFilter "${String(cleanup.queryFilter)}"`;
+    }
+    if (cleanup.queryParams !== undefined && !isStringList(cleanup.queryParams)) {
+        return '"cleanup.queryParams" must be a list of strings';
+    }
+    if (cleanup.hostRewrites !== undefined && (!Array.isArray(cleanup.hostRewrites)
+        || cleanup.hostRewrites.some(rewrite => !rewrite || typeof rewrite.from !== 'string' || typeof rewrite.to !== 'string'))) {
+        return '"cleanup.hostRewrites" must be a list of { from, to } pairs';
+    }
+    for (const flag of CLEANUP_FLAGS) {
+        if (cleanup[flag] !== undefined && typeof cleanup[flag] !== 'boolean') {
+            return `"cleanup.${flag}" must be true or false`;
+        }
+    }
+    return null;
+}
+
+/**
+ * Validates a single imported entry, returns an error message or null
+ */
+function validateImportedPattern(entry: unknown): string | null {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+        return 'not an object';
+    }
+
+    const record = entry as Record<string, unknown>;
+    for (const field of REQUIRED_STRING_FIELDS) {
+        if (typeof record[field] !== 'string' || !(record[field] as string).trim()) {
+            return `missing "${field}"`;
+        }
+    }
+    for (const field of OPTIONAL_STRING_FIELDS) {
+        if (record[field] !== undefined && typeof record[field] !== 'string') {
+            return `"${field}" must be a string`;
+        }
+    }
+    if (record.enabled !== undefined && typeof record.enabled !== 'boolean') {
+        return '"enabled" must be true or false';
+    }
+    if (record.outputFormat !== undefined && !Object.keys(OUTPUT_FORMAT_NAMES).includes(record.outputFormat as string)) {
+        return `unknown outputFormat "${String(record.outputFormat)}"`;
+    }
+    if (record.previousTemplates !== undefined && !isStringList(record.previousTemplates)) {
+        return '"previousTemplates" must be a list of strings';
+    }
+    if (record.noteAction !== undefined) {
+        const noteAction = record.noteAction as Record<string, unknown> | null;
+        if (!noteAction || typeof noteAction !== 'object'
+            || typeof noteAction.enabled !== 'boolean' || typeof noteAction.pathTemplate !== 'string') {
+            return '"noteAction" must have "enabled" and "pathTemplate"';
+        }
+        if (noteAction.templatePath !== undefined && typeof noteAction.templatePath !== 'string') {
+            return '"noteAction.templatePath" must be a string';
+        }
+    }
+    if (record.cleanup !== undefined) {
+        const cleanupError = validateImportedCleanup(record.cleanup);
+        if (cleanupError) return cleanupError;
+    }
+
+    const domainError = validateDomainPattern(record.domainPattern as string);
+    if (domainError) {
+        return `invalid domainPattern: ${domainError}`;
+    }
+
+    for (const field of ['pathPattern', 'queryPattern', 'fragmentPattern']) {
+        const regex = record[field] as string | undefined;
+        const regexError = regex !== undefined && regex !== '' ? validateRegexPattern(regex) : null;
+        if (regexError) {
+            return `invalid ${field}: ${regexError}`;
+        }
+    }
+
+    const templateError = validateOutputTemplate(record.outputTemplate as string);
+    if (templateError) {
+        return `invalid outputTemplate: ${templateError}`;
+    }
+
+    const noteNameError = validateNoteNameTemplates(record as unknown as LinkPattern);
+    if (noteNameError) {
+        return noteNameError;
+    }
+
+    return null;
+}
+
+/**
+ * Parses exported JSON (either the export document or a bare array of patterns).
+ * Invalid entries are skipped and reported in `errors`.
+ */
+export function parsePatternImport(json: string): PatternImportResult {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch (e) {
+        return { patterns: [], errors: [`Invalid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+    }
+
+    const entries = Array.isArray(data)
+        ? data
+        : (data && typeof data === 'object' ? (data as Record<string, unknown>).patterns : undefined);
+    if (!Array.isArray(entries)) {
+        return { patterns: [], errors: ['Expected an array of patterns or an object with a "patterns" array'] };
+    }
+
+    const patterns: LinkPattern[] = [];
+    const errors: string[] = [];
+
+    entries.forEach((entry, index) => {
+        const error = validateImportedPattern(entry);
+        if (error) {
+            const name = entry && typeof entry.name === 'string' ? ` "${entry.name}"` : '';
+            errors.push(`Pattern ${index + 1}${name}: ${error}`);
+            return;
+        }
+
+        const pattern = entry as LinkPattern;
+        patterns.push({
+            ...pattern,
+            id: pattern.id || generatePatternId(),
+            enabled: pattern.enabled ?? true,
+            ...(pattern.cleanup ? { cleanup: { ...createDefaultCleanup(), ...pattern.cleanup } } : {}),
+        });
+    });
+
+    return { patterns, errors };
+}
+
+/**
+ * JSON with object keys sorted, so equal values serialize the same way
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        return `{${Object.keys(record).sort()
+            .filter(key => record[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * Whether two pattern lists are the same, ignoring the order of fields
+ */
+export function arePatternsEqual(a: LinkPattern[], b: LinkPattern[]): boolean {
+    return stableStringify(a) === stableStringify(b);
+}
+
+/**
+ * Returns a name not used by any of the patterns, e.g. "GitHub (2)"
+ */
+function uniqueName(name: string, patterns: LinkPattern[]): string {
+    const taken = new Set(patterns.map(p => p.name.toLowerCase()));
+    let candidate = name;
+    for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+        candidate = `${name} (${n})`;
+    }
+    return candidate;
+}
+
+/**
+ * Merges imported patterns into the existing list. A conflict is an existing
+ * pattern with the same id or the same (case-insensitive) name. A replaced pattern
+ * keeps its id, so usage stats and history stay attached, and its earlier templates.
+ */
+export function mergePatterns(
+    existing: LinkPattern[],
+    incoming: LinkPattern[],
+    strategy: ImportConflictStrategy
+): PatternMergeResult {
+    const result: PatternMergeResult = { patterns: [...existing], added: 0, replaced: 0, skipped: 0 };
+
+    for (const pattern of incoming) {
+        const conflictIndex = result.patterns.findIndex(p =>
+            p.id === pattern.id || p.name.toLowerCase() === pattern.name.toLowerCase()
+        );
+
+        if (conflictIndex < 0) {
+            result.patterns.push(pattern);
+            result.added++;
+        } else if (strategy === 'skip') {
+            result.skipped++;
+        } else if (strategy === 'replace') {
+            const previous = result.patterns[conflictIndex];
+            result.patterns[conflictIndex] = recordTemplateChange(previous, {
+                ...pattern,
+                id: previous.id,
+                previousTemplates: pattern.previousTemplates ?? previous.previousTemplates,
+            });
+            result.replaced++;
+        } else {
+            result.patterns.push({
+                ...pattern,
+                id: generatePatternId(),
+                name: uniqueName(pattern.name, result.patterns),
+            });
+            result.added++;
+        }
+    }
+
+    return result;
+}
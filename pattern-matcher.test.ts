@@ -0,0 +1,166 @@
+import { LinkPattern } from './types';
+import { PatternMatcher } from './pattern-matcher';
+import { MAX_URL_LENGTH, findMatchingPattern } from './utils';
+import { createPatternFromPreset, getPresetKeys } from './presets';
+
+function pattern(id: string, domainPattern: string, overrides: Partial<LinkPattern> = {}): LinkPattern {
+    return {
+        id,
+        name: id,
+        enabled: true,
+        domainPattern,
+        pathPattern: '\\/(\\d+)',
+        outputTemplate: `[${id} \${1}](\${url})`,
+        ...overrides,
+    };
+}
+
+describe('PatternMatcher', () => {
+    it('should match literal hosts and wildcard suffixes', () => {
+        const matcher = new PatternMatcher([pattern('literal', 'example.com'), pattern('suffix', '*.atlassian.net')]);
+        expect(matcher.findMatch('https://example.com/1')?.output).toBe('[literal 1](https://example.com/1)');
+        expect(matcher.findMatch('https://a.atlassian.net/2')?.output).toBe('[suffix 2](https://a.atlassian.net/2)');
+        expect(matcher.findMatch('https://a.b.atlassian.net/2')).toBeNull();
+        expect(matcher.findMatch('https://atlassian.net/2')).toBeNull();
+        expect(matcher.findMatch('https://other.com/3')).toBeNull();
+        expect(matcher.findMatch('not a url')).toBeNull();
+    });
+
+    it('should keep first-match-wins order across indexes', () => {
+        const patterns = [
+            pattern('wildcard', 'exa*.com', { pathPattern: '\\/special\\/(\\d+)' }),
+            pattern('suffix', '*.example.com'),
+            pattern('literal', 'www.example.com'),
+            pattern('any', '*'),
+        ];
+        const matcher = new PatternMatcher(patterns);
+        expect(matcher.findMatch('https://example.com/special/1')?.pattern.id).toBe('wildcard');
+        expect(matcher.findMatch('https://www.example.com/2')?.pattern.id).toBe('suffix');
+        expect(matcher.findMatch('https://other.org/3')?.pattern.id).toBe('any');
+        expect(matcher.getCandidates('https://www.example.com/2').map(p => p.id))
+            .toEqual(['wildcard', 'suffix', 'literal', 'any']);
+    });
+
+    it('should index every domain of a list once and ignore exclusions', () => {
+        const patterns = [
+            pattern('list', 'github.com, *.github.io, !docs.github.io'),
+            pattern('other', 'gitlab.com'),
+        ];
+        const matcher = new PatternMatcher(patterns);
+        expect(matcher.getCandidates('https://github.com/1').map(p => p.id)).toEqual(['list']);
+        expect(matcher.getCandidates('https://docs.github.io/1').map(p => p.id)).toEqual(['list']);
+        expect(matcher.findMatch('https://docs.github.io/1')).toBeNull();
+        expect(matcher.findMatch('https://me.github.io/1')?.pattern.id).toBe('list');
+    });
+
+    it('should match hosts case-insensitively in the index', () => {
+        const matcher = new PatternMatcher([pattern('literal', 'example.com')]);
+        expect(matcher.getCandidates('HTTPS://EXAMPLE.COM/1').map(p => p.id)).toEqual(['literal']);
+    });
+
+    it('should skip disabled and invalid patterns', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const matcher = new PatternMatcher([
+            pattern('disabled', 'example.com', { enabled: false }),
+            pattern('invalid', 'example.com', { pathPattern: '(' }),
+            pattern('valid', 'example.com'),
+        ]);
+        expect(matcher.findMatch('https://example.com/1')?.pattern.id).toBe('valid');
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(matcher.getSkippedPatterns().map(skipped => skipped.pattern.id)).toEqual(['invalid']);
+        warn.mockRestore();
+    });
+
+    it('should render labels without output formats', () => {
+        const matcher = new PatternMatcher([pattern('literal', 'example.com', { outputFormat: 'html' })]);
+        expect(matcher.findLabel('https://example.com/7')).toBe('literal 7');
+        expect(matcher.findLabel('https://example.com/x')).toBeNull();
+    });
+
+    it('should render the labels of earlier templates of the first matching pattern', () => {
+        const patterns = [
+            pattern('other', 'example.com', { pathPattern: '\\/x\\/(\\d+)' }),
+            pattern('literal', 'example.com', { previousTemplates: ['[old ${1}](${url})', '[${2}](${url})'] }),
+        ];
+        const matcher = new PatternMatcher(patterns);
+        expect(matcher.findLabelMatch('https://example.com/7', p => p.previousTemplates ?? [])).toEqual({
+            pattern: patterns[1],
+            label: 'literal 7',
+            previousLabels: ['old 7', ''],
+        });
+        expect(matcher.findLabelMatch('https://example.com/y', () => [])).toBeNull();
+    });
+
+    it('should pass match options through', () => {
+        const matcher = new PatternMatcher([pattern('literal', 'example.com')]);
+        expect(matcher.findMatch('https://example.com/1', { defaultFormat: 'text' })?.output).toBe('literal 1');
+    });
+
+    it('should skip patterns that repeatedly exceed the time budget', () => {
+        // The clock advances 100 ms per reading, so every evaluation takes 100 ms
+        let time = 0;
+        const now = () => (time += 100);
+        const onSlowPattern = jest.fn();
+        const patterns = [pattern('slow', 'example.com', { pathPattern: '\\/slow\\/(\\d+)' }), pattern('fast', 'example.com')];
+        const matcher = new PatternMatcher(patterns, { budgetMs: 80, onSlowPattern, now });
+
+        // A single overrun (e.g. a GC pause) is not enough
+        expect(matcher.findMatch('https://example.com/slow/1')?.pattern.id).toBe('slow');
+        expect(matcher.findMatch('https://example.com/slow/1')?.pattern.id).toBe('slow');
+        expect(onSlowPattern).not.toHaveBeenCalled();
+
+        expect(matcher.findMatch('https://example.com/slow/1')?.pattern.id).toBe('slow');
+        expect(onSlowPattern).toHaveBeenCalledTimes(1);
+        expect(onSlowPattern).toHaveBeenCalledWith(patterns[0], 100);
+
+        expect(matcher.getCandidates('https://example.com/1')).toEqual([patterns[1]]);
+        expect(matcher.findMatch('https://example.com/1')?.pattern.id).toBe('fast');
+    });
+
+    it('should skip patterns with nested quantifiers', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const patterns = [pattern('nested', 'example.com', { pathPattern: '\\/((\\d+)+)$' }), pattern('fast', 'example.com')];
+        const matcher = new PatternMatcher(patterns);
+        expect(matcher.findMatch('https://example.com/1')?.pattern.id).toBe('fast');
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(matcher.getSkippedPatterns()).toEqual([
+            { pattern: patterns[0], reason: 'Nested quantifier in "(\\d+)+" can be very slow' },
+        ]);
+        warn.mockRestore();
+    });
+
+    it('should not match URLs longer than the length cap', () => {
+        const matcher = new PatternMatcher([pattern('literal', 'example.com')]);
+        const url = 'https://example.com/1?q=' + 'a'.repeat(MAX_URL_LENGTH);
+        expect(matcher.findMatch(url)).toBeNull();
+        expect(matcher.findLabel(url)).toBeNull();
+    });
+});
+
+describe('PatternMatcher benchmark', () => {
+    const patterns = getPresetKeys().map(key => createPatternFromPreset(key, { enabled: true }));
+    const hosts = ['github.com', 'gitlab.com', 'team.atlassian.net', 'dev.azure.com', 'sentry.io', 'example.org', 'news.site.com'];
+    const paths = ['/o/r/pull/', '/browse/DEV-', '/org/project/_workitems/edit/', '/issues/', '/articles/'];
+    const urls = Array.from({ length: 30000 }, (_, i) =>
+        `https://${hosts[i % hosts.length]}${paths[i % paths.length]}${i}`
+    );
+
+    it('should return the same results as trying every pattern', () => {
+        const matcher = new PatternMatcher(patterns);
+        for (const url of urls.slice(0, 2000)) {
+            expect(matcher.findMatch(url)?.output ?? null).toBe(findMatchingPattern(url, patterns)?.output ?? null);
+        }
+    });
+
+    it('should match tens of thousands of URLs while trying a fraction of the patterns', () => {
+        const matcher = new PatternMatcher(patterns);
+        const matched = urls.filter(url => matcher.findMatch(url) !== null).length;
+        const linearMatched = urls.filter(url => findMatchingPattern(url, patterns) !== null).length;
+        expect(matched).toBe(linearMatched);
+        expect(matched).toBeGreaterThan(0);
+
+        // Counted instead of timed, so a slow or busy machine can't fail the test
+        const tried = urls.reduce((total, url) => total + matcher.getCandidates(url).length, 0);
+        expect(tried).toBeLessThan((urls.length * patterns.length) / 4);
+    });
+});
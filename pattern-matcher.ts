@@ -0,0 +1,242 @@
+import { LinkPattern, MatchOptions } from './types';
+import { parseHttpUrl } from './domain-pattern';
+import { findNestedQuantifier } from './regex-safety';
+import {
+    CompiledPattern,
+    MAX_URL_LENGTH,
+    PatternLookup,
+    PatternMatch,
+    compilePattern,
+    evaluateCompiledLabel,
+    evaluateCompiledPattern,
+} from './utils';
+
+/** Matching a single URL against one pattern should never take longer than this */
+export const MATCH_BUDGET_MS = 100;
+
+/** Number of budget overruns after which a pattern is skipped, so a single GC pause doesn't count */
+export const SLOW_PATTERN_STRIKES = 3;
+
+/**
+ * Label of the first pattern matching a URL, see PatternMatcher.findLabelMatch
+ */
+export interface LabelMatch {
+    pattern: LinkPattern;
+
+    /** Label of the pattern's current template */
+    label: string;
+
+    /** Labels of the earlier templates asked for, in order (null where a template doesn't render) */
+    previousLabels: (string | null)[];
+}
+
+/**
+ * A pattern the matcher never tries, see PatternMatcher.getSkippedPatterns
+ */
+export interface SkippedPattern {
+    pattern: LinkPattern;
+
+    /** Why the pattern was skipped: an invalid or unsafe regex */
+    reason: string;
+}
+
+/**
+ * Options of a PatternMatcher
+ */
+export interface PatternMatcherOptions {
+    /** Time allowed for one pattern to evaluate one URL, in milliseconds */
+    budgetMs?: number;
+
+    /** Called once when a pattern has exceeded the budget SLOW_PATTERN_STRIKES times; the matcher skips it from then on */
+    onSlowPattern?: (pattern: LinkPattern, elapsedMs: number) => void;
+
+    /** Clock, for tests */
+    now?: () => number;
+}
+
+/**
+ * Matches URLs against a pattern list with precompiled regexes.
+ * Patterns are indexed by the literal hosts ("github.com") and wildcard subdomains
+ * ("*.atlassian.net") of their domain pattern, so only patterns that can match a URL's
+ * host are tried. Other domain patterns are tried for every URL. First match wins, as with the plain list.
+ *
+ * A running regex can't be interrupted, so regexes with nested quantifiers are rejected
+ * up front and evaluations are timed afterwards: a pattern that repeatedly exceeds the
+ * time budget is skipped from then on. URLs longer than MAX_URL_LENGTH never match.
+ *
+ * Build a new matcher whenever the patterns change.
+ */
+export class PatternMatcher implements PatternLookup {
+    private compiled: CompiledPattern[] = [];
+    private byHost = new Map<string, number[]>();
+    private bySuffix = new Map<string, number[]>();
+    private unindexed: number[] = [];
+    private slow = new Set<number>();
+    private overruns = new Map<number, number>();
+    private skipped: SkippedPattern[] = [];
+
+    private budgetMs: number;
+    private onSlowPattern?: (pattern: LinkPattern, elapsedMs: number) => void;
+    private now: () => number;
+
+    constructor(patterns: LinkPattern[], options: PatternMatcherOptions = {}) {
+        this.budgetMs = options.budgetMs ?? MATCH_BUDGET_MS;
+        this.onSlowPattern = options.onSlowPattern;
+        this.now = options.now ?? Date.now;
+
+        for (const pattern of patterns) {
+            if (!pattern.enabled) continue;
+
+            let compiled: CompiledPattern | null;
+            try {
+                const unsafe = [pattern.pathPattern, pattern.queryPattern, pattern.fragmentPattern]
+                    .map(regex => regex ? findNestedQuantifier(regex) : null)
+                    .find(message => message !== null);
+                if (unsafe) throw new Error(unsafe);
+                compiled = compilePattern(pattern);
+            } catch (e) {
+                // Invalid and unsafe regexes never match, same as an error while pasting
+                console.warn(`Pattern Link Shortener: skipping pattern "${pattern.name}"`, e);
+                this.skipped.push({ pattern, reason: e instanceof Error ? e.message : String(e) });
+                continue;
+            }
+            if (compiled) {
+                this.index(compiled);
+            }
+        }
+    }
+
+    /**
+     * Patterns skipped because a regex is invalid or unsafe, in pattern order
+     */
+    getSkippedPatterns(): SkippedPattern[] {
+        return this.skipped;
+    }
+
+    private index(compiled: CompiledPattern): void {
+        const position = this.compiled.length;
+        this.compiled.push(compiled);
+
+        // Exclusions only narrow down a match, they never add candidates
+        const hosts = compiled.domainRules.filter(rule => !rule.exclude).map(rule => rule.host);
+        if (hosts.some(host => host.includes('*') && !/^\*\.[^*]+$/.test(host))) {
+            this.unindexed.push(position);
+            return;
+        }
+
+        for (const host of hosts) {
+            if (host.startsWith('*.')) {
+                addToIndex(this.bySuffix, host.slice(2), position);
+            } else {
+                addToIndex(this.byHost, host, position);
+            }
+        }
+    }
+
+    /**
+     * Positions of the patterns that may match the URL, in pattern order
+     */
+    private getCandidatePositions(url: string): number[] {
+        if (url.length > MAX_URL_LENGTH) return [];
+
+        const parsed = parseHttpUrl(url);
+        if (parsed === null) return [];
+
+        const host = parsed.hostname;
+        const positions = [...this.unindexed, ...(this.byHost.get(host) ?? [])];
+
+        // "*.atlassian.net" matches hosts with one more label than "atlassian.net"
+        const dot = host.indexOf('.');
+        if (dot >= 0) {
+            positions.push(...(this.bySuffix.get(host.slice(dot + 1)) ?? []));
+        }
+
+        // A pattern listing several domains can be indexed more than once
+        return positions
+            .filter((position, index) => !this.slow.has(position) && positions.indexOf(position) === index)
+            .sort((a, b) => a - b);
+    }
+
+    /**
+     * Runs an evaluation of the pattern at a position and checks it against the time budget
+     */
+    private timed<T>(position: number, evaluate: (compiled: CompiledPattern) => T): T {
+        const start = this.now();
+        const result = evaluate(this.compiled[position]);
+        const elapsed = this.now() - start;
+
+        if (elapsed > this.budgetMs && !this.slow.has(position)) {
+            const overruns = (this.overruns.get(position) ?? 0) + 1;
+            this.overruns.set(position, overruns);
+            if (overruns >= SLOW_PATTERN_STRIKES) {
+                this.slow.add(position);
+                this.onSlowPattern?.(this.compiled[position].pattern, elapsed);
+            }
+        }
+        return result;
+    }
+
+    getCandidates(url: string): LinkPattern[] {
+        return this.getCandidatePositions(url).map(position => this.compiled[position].pattern);
+    }
+
+    findMatch(url: string, options: MatchOptions = {}): PatternMatch | null {
+        for (const position of this.getCandidatePositions(url)) {
+            const match = this.timed(position, compiled => evaluateCompiledPattern(url, compiled, options));
+            if (match) {
+                return match;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Label of the first matching pattern, ignoring output formats
+     */
+    findLabel(url: string, options: MatchOptions = {}): string | null {
+        for (const position of this.getCandidatePositions(url)) {
+            const label = this.timed(position, compiled => evaluateCompiledLabel(url, compiled, undefined, options));
+            if (label !== null) {
+                return label;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Label of the first matching pattern, plus the labels the given earlier templates
+     * of that pattern produce, e.g. to recognize links generated by an old template
+     */
+    findLabelMatch(
+        url: string,
+        getPreviousTemplates: (pattern: LinkPattern) => string[],
+        options: MatchOptions = {}
+    ): LabelMatch | null {
+        for (const position of this.getCandidatePositions(url)) {
+            const match = this.timed(position, compiled => {
+                const label = evaluateCompiledLabel(url, compiled, undefined, options);
+                if (label === null) return null;
+
+                const previousLabels = getPreviousTemplates(compiled.pattern)
+                    .map(template => evaluateCompiledLabel(url, compiled, template, options));
+                return { pattern: compiled.pattern, label, previousLabels };
+            });
+            if (match) {
+                return match;
+            }
+        }
+
+        return null;
+    }
+}
+
+function addToIndex(index: Map<string, number[]>, key: string, position: number): void {
+    const positions = index.get(key);
+    if (positions) {
+        positions.push(position);
+    } else {
+        index.set(key, [position]);
+    }
+}
@@ -62,8 +62,8 @@ export const PRESET_PATTERNS: Record<string, Omit<LinkPattern, 'id' | 'enabled'>
         name: 'GitLab (Self-Hosted)',
         domainPattern: 'gitlab.example.com',
         pathPattern: '\\/([^\\/]+\\/[^\\/]+)\\/-\\/(issues|merge_requests)\\/(\\d+)',
-        outputTemplate: '[${1}#${3}](${url})',
-        description: 'For self-hosted GitLab. Update domain pattern. Uses # for both issues and MRs.',
+        outputTemplate: '[${1}${2=merge_requests?!:#}${3}](${url})',
+        description: 'For self-hosted GitLab. Update domain pattern. Uses # for issues and ! for MRs.',
         isPreset: true,
     },
 
@@ -71,8 +71,8 @@ export const PRESET_PATTERNS: Record<string, Omit<LinkPattern, 'id' | 'enabled'>
         name: 'GitHub Issues/PRs',
         domainPattern: 'github.com',
         pathPattern: '\\/([^\\/]+\\/[^\\/]+)\\/(issues|pull)\\/(\\d+)',
-        outputTemplate: '[${1}#${3}](${url})',
-        description: 'Formats GitHub issue and PR links (e.g., owner/repo#123)',
+        outputTemplate: '[${1} ${2=pull?PR:Issue} #${3}](${url})',
+        description: 'Formats GitHub issue and PR links (e.g., owner/repo PR #123)',
         isPreset: true,
     },
 
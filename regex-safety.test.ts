@@ -0,0 +1,46 @@
+import { analyzeRegexSafety } from './regex-safety';
+import { PRESET_PATTERNS } from './presets';
+
+describe('analyzeRegexSafety', () => {
+    it('should warn about nested quantifiers', () => {
+        expect(analyzeRegexSafety('(a+)+$')).toEqual(['Nested quantifier in "(a+)+" can be very slow']);
+        expect(analyzeRegexSafety('(?:\\w+\\s?)*$')).toHaveLength(1);
+        expect(analyzeRegexSafety('([a-z]{1,})+')).toHaveLength(1);
+        expect(analyzeRegexSafety('(.*a){10}')).toHaveLength(1);
+        expect(analyzeRegexSafety('((a+)b?)+')).toHaveLength(1);
+        expect(analyzeRegexSafety('(a+a)+')).toHaveLength(1);
+        expect(analyzeRegexSafety('(?:\\/[^\\/]+|-)+')).toHaveLength(1);
+    });
+
+    it('should accept nested quantifiers whose repeats are separated by a literal', () => {
+        expect(analyzeRegexSafety('(?:\\/[^\\/]+)+')).toEqual([]);
+        expect(analyzeRegexSafety('\\/((?:[^\\/]+\\/)+)-\\/issues\\/(\\d+)')).toEqual([]);
+        expect(analyzeRegexSafety('(\\w+\\.)*example')).toEqual([]);
+        expect(analyzeRegexSafety('((a+)b)+')).toEqual([]);
+    });
+
+    it('should warn about repeated overlapping alternatives', () => {
+        expect(analyzeRegexSafety('(a|a)*')).toEqual(['Repeated alternatives in "(a|a)*" overlap and can be very slow']);
+        expect(analyzeRegexSafety('(a|ab)*c')).toHaveLength(1);
+        expect(analyzeRegexSafety('(?:\\w|-)+')).toHaveLength(1);
+    });
+
+    it('should accept quantifiers that do not repeat a repetition', () => {
+        expect(analyzeRegexSafety('\\/browse\\/([A-Z]+-\\d+)')).toEqual([]);
+        expect(analyzeRegexSafety('(\\d+)?')).toEqual([]);
+        expect(analyzeRegexSafety('(x{2})+')).toEqual([]);
+        expect(analyzeRegexSafety('(a|b)*')).toEqual([]);
+    });
+
+    it('should ignore escaped parentheses and character classes', () => {
+        expect(analyzeRegexSafety('\\(a+\\)+')).toEqual([]);
+        expect(analyzeRegexSafety('[(]+')).toEqual([]);
+        expect(analyzeRegexSafety('[a+)]+')).toEqual([]);
+    });
+
+    it('should accept all preset patterns', () => {
+        for (const preset of Object.values(PRESET_PATTERNS)) {
+            expect(analyzeRegexSafety(preset.pathPattern)).toEqual([]);
+        }
+    });
+});
@@ -0,0 +1,245 @@
+/**
+ * A group being scanned by analyzeRegexSafety
+ */
+interface GroupScan {
+    /** Index of the opening parenthesis */
+    start: number;
+
+    /** Whether the group's content repeats something a variable number of times (+, *, {n,m}) */
+    hasRepetition: boolean;
+
+    /** Source of each alternative, split on top-level | */
+    alternatives: string[];
+
+    /** Atoms the group's content repeats a variable number of times, ANY_ATOM for repeated groups */
+    repeatedAtoms: string[];
+
+    /** Literal characters every match of the group's content contains */
+    literals: string[];
+
+    /** Lookarounds match no text, so their literals are not passed on */
+    lookaround: boolean;
+}
+
+/**
+ * A quantifier in the pattern
+ */
+interface Quantifier {
+    length: number;
+    min: number;
+    max: number;
+}
+
+/**
+ * Reads the quantifier at a position, if any
+ */
+function readQuantifier(pattern: string, index: number): Quantifier | null {
+    const char = pattern.charAt(index);
+    let quantifier: Quantifier;
+
+    if (char === '*' || char === '+' || char === '?') {
+        quantifier = { length: 1, min: char === '+' ? 1 : 0, max: char === '?' ? 1 : Infinity };
+    } else if (char === '{') {
+        const braces = pattern.slice(index).match(/^\{(\d+)(,(\d*))?\}/);
+        if (!braces) return null;
+        const min = Number(braces[1]);
+        const max = braces[2] === undefined ? min : braces[3] === '' ? Infinity : Number(braces[3]);
+        quantifier = { length: braces[0].length, min, max };
+    } else {
+        return null;
+    }
+
+    // Lazy suffix
+    if (pattern.charAt(index + quantifier.length) === '?') quantifier.length++;
+    return quantifier;
+}
+
+/** The quantified part can match in several ways of different length */
+const isVariable = (quantifier: Quantifier) => quantifier.max > quantifier.min;
+
+/** The quantified part is matched more than once */
+const isRepeated = (quantifier: Quantifier) => quantifier.max > 1;
+
+/** Stands for repeated content that isn't a single atom and may match anything */
+const ANY_ATOM = '';
+
+/**
+ * The character a literal atom matches ("a", "\\/"), or null for other atoms
+ */
+function literalChar(atom: string): string | null {
+    if (atom.length === 1) return /[.^$|?*+()[\]{}]/.test(atom) ? null : atom;
+    return /^\\[^A-Za-z0-9]$/.test(atom) ? atom.charAt(1) : null;
+}
+
+/**
+ * Whether an atom can match a character
+ */
+function atomMatches(atom: string, char: string): boolean {
+    if (atom === ANY_ATOM) return true;
+    try {
+        return new RegExp(`^(?:${atom})$`).test(char);
+    } catch {
+        return true;
+    }
+}
+
+/**
+ * Whether every repeat of a group must match a literal character that its inner
+ * repetitions can't, like "/" in (?:\/[^\/]+)+. The repeats then can't overlap,
+ * so the nested quantifier is matched in linear time.
+ */
+function hasSeparator(group: GroupScan): boolean {
+    return group.alternatives.length === 1
+        && group.literals.some(char => !group.repeatedAtoms.some(atom => atomMatches(atom, char)));
+}
+
+/**
+ * Records a quantified (or plain) atom in the group that contains it
+ */
+function addAtom(group: GroupScan, atom: string, quantifier: Quantifier | null): void {
+    if (quantifier && isVariable(quantifier)) {
+        group.hasRepetition = true;
+        group.repeatedAtoms.push(atom);
+    }
+
+    const literal = literalChar(atom);
+    if (literal !== null && (!quantifier || quantifier.min > 0)) {
+        group.literals.push(literal);
+    }
+}
+
+/**
+ * First atom of an alternative: an escape, a character class, a group opener or a single character
+ */
+function firstAtom(alternative: string): string {
+    const match = alternative.match(/^(?:\\.|\[(?:\\.|[^\]\\])*\]|\(\?[:=!<]?|\(|.)/);
+    return match ? match[0] : '';
+}
+
+/** Atoms that match (almost) any character, so they overlap with everything */
+const BROAD_ATOMS = ['.', '\\w', '\\W', '\\S', '\\D', '\\s', '\\d'];
+
+/**
+ * Whether two or more alternatives can start with the same character
+ */
+function hasAmbiguousAlternatives(alternatives: string[]): boolean {
+    if (alternatives.length < 2) return false;
+
+    const atoms = alternatives.map(firstAtom);
+    if (atoms.some(atom => atom === '' || atom.startsWith('('))) return false;
+    if (atoms.some(atom => BROAD_ATOMS.includes(atom) || atom.startsWith('[^'))) return true;
+
+    return atoms.some((atom, index) => atoms.indexOf(atom) !== index);
+}
+
+/**
+ * Problems found by scanRegex
+ */
+interface RegexScan {
+    /** Repeated groups that contain a repetition, e.g. (a+)+ */
+    nested: string[];
+
+    /** Repeated groups whose alternatives overlap, e.g. (a|ab)* */
+    overlapping: string[];
+}
+
+/**
+ * Scans a regex for constructs that can take exponential time on some inputs
+ * (catastrophic backtracking). The regex itself is not checked for validity.
+ */
+function scanRegex(pattern: string): RegexScan {
+    const scan: RegexScan = { nested: [], overlapping: [] };
+    const newGroup = (start: number, lookaround: boolean): GroupScan =>
+        ({ start, hasRepetition: false, alternatives: [''], repeatedAtoms: [], literals: [], lookaround });
+    const stack: GroupScan[] = [newGroup(0, false)];
+
+    const current = () => stack[stack.length - 1];
+    const appendSource = (text: string) => {
+        for (const group of stack) {
+            group.alternatives[group.alternatives.length - 1] += text;
+        }
+    };
+
+    let i = 0;
+    while (i < pattern.length) {
+        const char = pattern.charAt(i);
+
+        if (char === '(') {
+            const opener = pattern.slice(i).match(/^\((?:\?(?:[:=!]|<[=!]|<[A-Za-z_$][\w$]*>))?/) as RegExpMatchArray;
+            appendSource(opener[0]);
+            stack.push(newGroup(i, /^\(\?<?[=!]/.test(opener[0])));
+            i += opener[0].length;
+        } else if (char === ')' && stack.length > 1) {
+            const group = stack.pop() as GroupScan;
+            appendSource(')');
+            i++;
+
+            const quantifier = readQuantifier(pattern, i);
+            if (quantifier) {
+                appendSource(pattern.substr(i, quantifier.length));
+                i += quantifier.length;
+            }
+
+            const repeated = !!quantifier && isRepeated(quantifier);
+            const source = pattern.slice(group.start, i);
+            if (repeated && group.hasRepetition && !hasSeparator(group)) {
+                scan.nested.push(`Nested quantifier in "${source}" can be very slow`);
+            }
+            if (repeated && hasAmbiguousAlternatives(group.alternatives)) {
+                scan.overlapping.push(`Repeated alternatives in "${source}" overlap and can be very slow`);
+            }
+
+            const parent = current();
+            if (quantifier && isVariable(quantifier)) {
+                parent.hasRepetition = true;
+                parent.repeatedAtoms.push(ANY_ATOM);
+            } else if (group.hasRepetition) {
+                parent.hasRepetition = true;
+                parent.repeatedAtoms.push(...group.repeatedAtoms);
+            }
+            if ((!quantifier || quantifier.min > 0) && group.alternatives.length === 1 && !group.lookaround) {
+                parent.literals.push(...group.literals);
+            }
+        } else if (char === '|') {
+            current().alternatives.push('');
+            for (const group of stack.slice(0, -1)) {
+                group.alternatives[group.alternatives.length - 1] += '|';
+            }
+            i++;
+        } else {
+            // An escape, a character class or a single character, and its quantifier
+            const atom = char === '\\' ? pattern.substr(i, 2)
+                : char === '[' ? (pattern.slice(i).match(/^\[(?:\\.|[^\]\\])*\]?/) as RegExpMatchArray)[0]
+                : char;
+            appendSource(atom);
+            i += atom.length;
+
+            const quantifier = readQuantifier(pattern, i);
+            if (quantifier) {
+                appendSource(pattern.substr(i, quantifier.length));
+                i += quantifier.length;
+            }
+            addAtom(current(), atom, quantifier);
+        }
+    }
+
+    return scan;
+}
+
+/**
+ * Looks for regex constructs that can take exponential time on some inputs
+ * (catastrophic backtracking), e.g. (a+)+ or (a|ab)*.
+ * Returns one warning per problem; the regex itself is not checked for validity.
+ */
+export function analyzeRegexSafety(pattern: string): string[] {
+    const { nested, overlapping } = scanRegex(pattern);
+    return [...nested, ...overlapping];
+}
+
+/**
+ * Returns a message for the first nested quantifier, e.g. (a+)+, or null if there is none.
+ * Unlike overlapping alternatives, these are never needed to match a URL.
+ */
+export function findNestedQuantifier(pattern: string): string | null {
+    return scanRegex(pattern).nested[0] ?? null;
+}
@@ -1,9 +1,20 @@
-import { App, Modal, Notice, PluginSettingTab, Setting } from 'obsidian';
-import { LinkPattern } from './types';
+import { App, Modal, Notice, PluginSettingTab, Setting, TFile, normalizePath } from 'obsidian';
+import { ClipboardPreference, ImportConflictStrategy, LinkPattern, LookupTable, MatchOptions, NoteAction, OutputFormat, UrlCleanupOptions } from './types';
 import { PRESET_PATTERNS, createPatternFromPreset, generatePatternId } from './presets';
-import { validateRegexPattern, validateOutputTemplate, matchPattern, sanitizeDomain } from './utils';
+import { analyzeRegexSafety } from './regex-safety';
+import { validateDomainPattern } from './domain-pattern';
+import { validateRegexPattern, validateOutputTemplate, validateNoteNameTemplates, matchPattern, sanitizeDomain, getCaptureGroups, CaptureGroupInfo, RESERVED_PLACEHOLDERS } from './utils';
+import { createDefaultCleanup } from './url-cleanup';
+import { exportPatterns } from './pattern-io';
+import { OUTPUT_FORMAT_NAMES } from './output-format';
+import { getLookupTableNames, validateTemplateSyntax } from './template';
+import { formatLookupCsv, parseLookupCsv } from './lookup-tables';
+import { findUnusedPatterns, formatTimeAgo, pruneStats } from './stats';
 import type PatternLinkShortenerPlugin from './main';
 
+/** Number of history entries listed in the settings tab */
+const RECENT_HISTORY_SHOWN = 10;
+
 export class PatternLinkShortenerSettingsTab extends PluginSettingTab {
     plugin: PatternLinkShortenerPlugin;
 
@@ -19,6 +30,58 @@ export class PatternLinkShortenerSettingsTab extends PluginSettingTab {
 
         containerEl.createEl('h2', { text: 'Pattern Link Shortener' });
 
+        new Setting(containerEl)
+            .setName('Shorten URLs inside pasted text')
+            .setDesc('When pasting text that is more than a single URL (e.g. a chat message or a list of links), shorten every matching URL and keep the surrounding text.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.shortenUrlsInText)
+                .onChange(async (value) => {
+                    this.plugin.settings.shortenUrlsInText = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Use selected text as label')
+            .setDesc('When pasting a matching URL onto selected text, keep the selection as the link label. Templates can also place it themselves with ${selection}.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.selectionAsLabel)
+                .onChange(async (value) => {
+                    this.plugin.settings.selectionAsLabel = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Links copied as rich text')
+            .setDesc('Links copied from issue trackers, chats or the address bar often come with their title. Choose whether such a link or the plain text of the clipboard is shortened first; the other is used if no pattern matches. The link text is available as ${label}.')
+            .addDropdown(dropdown => dropdown
+                .addOptions({ html: 'Prefer the copied link', plain: 'Prefer the plain text' })
+                .setValue(this.plugin.settings.clipboardPreference)
+                .onChange(async (value) => {
+                    this.plugin.settings.clipboardPreference = value as ClipboardPreference;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Display bare URLs shortened')
+            .setDesc('Show bare URLs that match a pattern as their label in live preview and reading view, without changing the note. Move the cursor onto a label to see the URL; click it to open the URL.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.displayShortenedUrls)
+                .onChange(async (value) => {
+                    this.plugin.settings.displayShortenedUrls = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Default output format')
+            .setDesc('How matched links are inserted, unless a pattern sets its own format. Formats other than the template take the label from a [label](target) template.')
+            .addDropdown(dropdown => dropdown
+                .addOptions(OUTPUT_FORMAT_NAMES)
+                .setValue(this.plugin.settings.defaultOutputFormat)
+                .onChange(async (value) => {
+                    this.plugin.settings.defaultOutputFormat = value as OutputFormat;
+                    await this.plugin.saveSettings();
+                }));
+
         // Header with action buttons
         new Setting(containerEl)
             .setName('Link patterns')
@@ -56,13 +119,252 @@ export class PatternLinkShortenerSettingsTab extends PluginSettingTab {
                 this.renderPatternItem(listEl, pattern, index);
             });
         }
+
+        this.renderLookupTables(containerEl);
+        this.renderUsage(containerEl);
+        this.renderImportExport(containerEl);
+    }
+
+    private renderLookupTables(containerEl: HTMLElement): void {
+        containerEl.createEl('h3', { text: 'Lookup tables' });
+        containerEl.createEl('p', {
+            text: 'Map captured values to friendly names. Use ${1|map:projects} in a template, or ${1|map:projects:Other} to set the text used when a value has no entry.',
+            cls: 'setting-item-description',
+        });
+
+        const { lookupTables } = this.plugin.settings;
+        lookupTables.forEach((table, index) => this.renderLookupTable(containerEl, table, index));
+
+        let csvPath = '';
+        new Setting(containerEl)
+            .setName('Import CSV')
+            .setDesc('Create or replace a table from a CSV file in the vault with "key,value" rows. The table is named after the file.')
+            .addText(text => text
+                .setPlaceholder('lookups/projects.csv')
+                .onChange(value => {
+                    csvPath = value.trim();
+                }))
+            .addButton(btn => btn
+                .setButtonText('Import')
+                .onClick(async () => {
+                    const path = normalizePath(csvPath);
+                    const file = this.app.vault.getAbstractFileByPath(path);
+                    if (!(file instanceof TFile)) {
+                        new Notice(`File not found: ${path}`);
+                        return;
+                    }
+                    const { entries, errors } = parseLookupCsv(await this.app.vault.read(file));
+                    const table = { name: file.basename, entries };
+                    const existing = lookupTables.findIndex(t => t.name === table.name);
+                    if (existing >= 0) {
+                        lookupTables[existing] = table;
+                    } else {
+                        lookupTables.push(table);
+                    }
+                    await this.plugin.saveSettings();
+
+                    const skipped = errors.length > 0 ? `, skipped ${errors.length} invalid row(s)` : '';
+                    new Notice(`Imported ${Object.keys(entries).length} entries into "${table.name}"${skipped}`);
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .addButton(btn => btn
+                .setButtonText('Add table')
+                .onClick(async () => {
+                    lookupTables.push({ name: `table${lookupTables.length + 1}`, entries: {} });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
+
+    private renderLookupTable(containerEl: HTMLElement, table: LookupTable, index: number): void {
+        const itemEl = containerEl.createDiv({ cls: 'lookup-table-item' });
+
+        new Setting(itemEl)
+            .setName('Table name')
+            .setDesc('Used in templates as map:name')
+            .addText(text => text
+                .setValue(table.name)
+                .onChange(async (value) => {
+                    table.name = value.trim();
+                    await this.plugin.saveSettings();
+                }))
+            .addExtraButton(btn => btn
+                .setIcon('trash')
+                .setTooltip('Delete table')
+                .onClick(async () => {
+                    this.plugin.settings.lookupTables.splice(index, 1);
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        const entriesSetting = new Setting(itemEl)
+            .setName('Entries')
+            .setDesc('One "key,value" per line. Keys match exactly first, then ignoring case.');
+        const validationEl = itemEl.createDiv({ cls: 'validation-message' });
+
+        entriesSetting.addTextArea(text => {
+            text.setPlaceholder('DEVOPS,Platform\nacme-internal/payments-svc,Payments')
+                .setValue(formatLookupCsv(table.entries))
+                .onChange(async (value) => {
+                    const { entries, errors } = parseLookupCsv(value);
+                    table.entries = entries;
+                    validationEl.textContent = errors.join('. ');
+                    validationEl.toggleClass('error', errors.length > 0);
+                    await this.plugin.saveSettings();
+                });
+            text.inputEl.rows = 4;
+            text.inputEl.addClass('lookup-table-textarea');
+        });
+    }
+
+    private renderUsage(containerEl: HTMLElement): void {
+        containerEl.createEl('h3', { text: 'Statistics and history' });
+
+        const { patterns, stats, history } = this.plugin.settings;
+        const unused = findUnusedPatterns(patterns, stats);
+        new Setting(containerEl)
+            .setName('Usage')
+            .setDesc(
+                `${patterns.length - unused.length} of ${patterns.length} pattern(s) have matched, ${history.length} recent link(s) in history. ` +
+                'Use the "Insert link from history" command to re-insert a past link.'
+            )
+            .addButton(btn => btn
+                .setButtonText('Clear')
+                .setWarning()
+                .onClick(async () => {
+                    this.plugin.settings.stats = {};
+                    this.plugin.settings.history = [];
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        if (unused.length > 0) {
+            containerEl.createEl('p', {
+                text: `Never matched: ${unused.map(p => p.name).join(', ')}`,
+                cls: 'pattern-usage-unused',
+            });
+        }
+
+        if (history.length > 0) {
+            const listEl = containerEl.createEl('ul', { cls: 'pattern-history-list' });
+            const now = Date.now();
+            for (const entry of history.slice(0, RECENT_HISTORY_SHOWN)) {
+                const itemEl = listEl.createEl('li');
+                itemEl.createEl('code', { text: entry.output });
+                itemEl.createSpan({
+                    text: ` ${formatTimeAgo(entry.timestamp, now)}${entry.notePath ? ` in ${entry.notePath}` : ''}`,
+                    cls: 'pattern-history-details',
+                });
+            }
+        }
+    }
+
+    private renderImportExport(containerEl: HTMLElement): void {
+        containerEl.createEl('h3', { text: 'Import / export' });
+
+        new Setting(containerEl)
+            .setName('On conflict')
+            .setDesc('What to do when an imported pattern has the same id or name as an existing one')
+            .addDropdown(dropdown => dropdown
+                .addOption('skip', 'Skip')
+                .addOption('replace', 'Replace')
+                .addOption('duplicate', 'Keep both')
+                .setValue(this.plugin.settings.importConflictStrategy)
+                .onChange(async (value) => {
+                    this.plugin.settings.importConflictStrategy = value as ImportConflictStrategy;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Clipboard')
+            .setDesc('Copy all patterns as JSON, or import patterns from JSON in the clipboard')
+            .addButton(btn => btn
+                .setButtonText('Copy')
+                .onClick(async () => {
+                    try {
+                        await navigator.clipboard.writeText(exportPatterns(this.plugin.settings.patterns));
+                    } catch (e) {
+                        new Notice('Could not write to the clipboard');
+                        return;
+                    }
+                    new Notice(`Copied ${this.plugin.settings.patterns.length} pattern(s) to clipboard`);
+                }))
+            .addButton(btn => btn
+                .setButtonText('Import')
+                .onClick(async () => {
+                    let json: string;
+                    try {
+                        json = await navigator.clipboard.readText();
+                    } catch (e) {
+                        new Notice('Could not read the clipboard');
+                        return;
+                    }
+                    await this.plugin.importPatterns(json, this.plugin.settings.importConflictStrategy, 'clipboard');
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('Pattern file')
+            .setDesc('JSON file in the vault used for export, import and sync')
+            .addText(text => text
+                .setPlaceholder('pattern-link-shortener.json')
+                .setValue(this.plugin.settings.patternFilePath)
+                .onChange(async (value) => {
+                    this.plugin.settings.patternFilePath = value.trim();
+                    await this.plugin.saveSettings();
+                }))
+            .addButton(btn => btn
+                .setButtonText('Export')
+                .onClick(async () => {
+                    await this.plugin.exportPatternsToFile();
+                }))
+            .addButton(btn => btn
+                .setButtonText('Import')
+                .onClick(async () => {
+                    const path = normalizePath(this.plugin.settings.patternFilePath);
+                    const file = this.app.vault.getAbstractFileByPath(path);
+                    if (!(file instanceof TFile)) {
+                        new Notice(`File not found: ${path}`);
+                        return;
+                    }
+                    const json = await this.app.vault.read(file);
+                    await this.plugin.importPatterns(json, this.plugin.settings.importConflictStrategy, path);
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('Sync from pattern file')
+            .setDesc('Watch the pattern file and merge its patterns whenever it changes (the file wins on conflicts). Useful for a team config kept in git.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.syncPatternFile)
+                .onChange(async (value) => {
+                    this.plugin.settings.syncPatternFile = value;
+                    await this.plugin.saveSettings();
+                    if (value) {
+                        await this.plugin.syncPatternsFromFile();
+                        this.display();
+                    }
+                }));
     }
 
     private renderPatternItem(container: HTMLElement, pattern: LinkPattern, index: number): void {
+        const stats = this.plugin.settings.stats[pattern.id];
+        const usage = stats && stats.count > 0
+            ? `${stats.count} match${stats.count === 1 ? '' : 'es'}, last ${formatTimeAgo(stats.lastUsed, Date.now())}`
+            : 'never matched';
+
+        const skipped = this.plugin.matcher.getSkippedPatterns().find(entry => entry.pattern.id === pattern.id);
+        const status = skipped ? ` · not used: ${skipped.reason}` : '';
+
         const setting = new Setting(container)
             .setClass('pattern-item')
             .setName(pattern.name)
-            .setDesc(pattern.domainPattern + (pattern.enabled ? '' : ' (disabled)'));
+            .setDesc(`${pattern.domainPattern}${pattern.enabled ? '' : ' (disabled)'} · ${usage}${status}`);
+        if (!stats || stats.count === 0) {
+            setting.settingEl.addClass('is-unused');
+        }
 
         // Enable/disable toggle
         setting.addToggle(toggle => toggle
@@ -106,6 +408,7 @@ export class PatternLinkShortenerSettingsTab extends PluginSettingTab {
             .setTooltip('Delete pattern')
             .onClick(async () => {
                 this.plugin.settings.patterns.splice(index, 1);
+                this.plugin.settings.stats = pruneStats(this.plugin.settings.stats, this.plugin.settings.patterns);
                 await this.plugin.saveSettings();
                 this.display();
             }));
@@ -119,42 +422,30 @@ export class PatternLinkShortenerSettingsTab extends PluginSettingTab {
     }
 
     private openPatternModal(existingPattern?: LinkPattern): void {
-        new PatternEditModal(
-            this.app,
-            existingPattern,
-            async (pattern) => {
-                if (existingPattern) {
-                    // Update existing
-                    const index = this.plugin.settings.patterns.findIndex(
-                        p => p.id === existingPattern.id
-                    );
-                    if (index >= 0) {
-                        this.plugin.settings.patterns[index] = pattern;
-                    }
-                } else {
-                    // Add new
-                    this.plugin.settings.patterns.push(pattern);
-                }
-                await this.plugin.saveSettings();
-                this.display();
-            }
-        ).open();
+        this.plugin.openPatternEditor(existingPattern, () => this.display());
     }
 }
 
-class PatternEditModal extends Modal {
+export class PatternEditModal extends Modal {
     pattern: LinkPattern;
     onSave: (pattern: LinkPattern) => void;
     isNew: boolean;
-
-    constructor(app: App, existingPattern: LinkPattern | undefined, onSave: (pattern: LinkPattern) => void) {
+    matchOptions: MatchOptions;
+
+    constructor(
+        app: App,
+        existingPattern: LinkPattern | undefined,
+        onSave: (pattern: LinkPattern) => void,
+        matchOptions: MatchOptions = {}
+    ) {
         super(app);
         this.onSave = onSave;
         this.isNew = !existingPattern;
+        this.matchOptions = matchOptions;
 
-        // Clone or create new pattern
+        // Clone (deeply, cleanup options are nested) or create new pattern
         this.pattern = existingPattern
-            ? { ...existingPattern }
+            ? JSON.parse(JSON.stringify(existingPattern))
             : {
                 id: generatePatternId(),
                 name: 'New Pattern',
@@ -186,7 +477,7 @@ class PatternEditModal extends Modal {
         // Domain pattern field
         new Setting(contentEl)
             .setName('Domain pattern')
-            .setDesc('Use * as wildcard. Examples: *.atlassian.net, jira.company.com, company.com/jira')
+            .setDesc('* matches within one part of the host. Separate domains with commas, exclude with !. Examples: *.atlassian.net, jira.company.com:8443, company.com/jira, !status.atlassian.net')
             .addText(text => text
                 .setPlaceholder('*.example.com')
                 .setValue(this.pattern.domainPattern)
@@ -195,7 +486,7 @@ class PatternEditModal extends Modal {
         // Path pattern field with validation
         const pathSetting = new Setting(contentEl)
             .setName('Path pattern (regex)')
-            .setDesc('Regex to match URL path after domain. Use () for capture groups.');
+            .setDesc('Regex to match URL path after domain. Use () for capture groups, (?<name>) for named groups.');
 
         const pathValidationEl = contentEl.createDiv({ cls: 'validation-message' });
 
@@ -204,32 +495,63 @@ class PatternEditModal extends Modal {
                 .setValue(this.pattern.pathPattern)
                 .onChange(value => {
                     this.pattern.pathPattern = value;
-                    const error = validateRegexPattern(value);
-                    if (error) {
-                        pathValidationEl.textContent = error;
-                        pathValidationEl.addClass('error');
-                    } else {
-                        pathValidationEl.textContent = 'Valid pattern';
-                        pathValidationEl.removeClass('error');
-                    }
+                    this.showRegexValidation(pathValidationEl, validateRegexPattern(value), value, 'Valid pattern');
+                    this.updateTemplateValidation();
                     this.updateTestResult();
                 });
             text.inputEl.rows = 2;
             text.inputEl.addClass('pattern-textarea');
         });
 
+        // Optional query string and fragment matchers
+        this.addOptionalRegexSetting(
+            contentEl,
+            'Query pattern (optional)',
+            'Regex matched against the query string, e.g. (?:^|&)selectedIssue=(?<issue>[^&]+). Query parameters are always available as ${query.name}.',
+            this.pattern.queryPattern,
+            value => this.pattern.queryPattern = value
+        );
+
+        this.addOptionalRegexSetting(
+            contentEl,
+            'Fragment pattern (optional)',
+            'Regex matched against the part after #, e.g. L(?<start>\\d+). The whole fragment is available as ${hash}.',
+            this.pattern.fragmentPattern,
+            value => this.pattern.fragmentPattern = value
+        );
+
         // Output template field
         new Setting(contentEl)
             .setName('Output template')
-            .setDesc('Use ${url} for full URL, ${1}, ${2}, etc. for capture groups, ${domain} for domain')
+            .setDesc('Use ${url} for full URL, ${1}, ${2}, etc. for capture groups, ${domain} for domain, ${title} or ${title|fallback} for the page title. Add filters with |, e.g. ${1|upper}, ${1|truncate:40}')
             .addText(text => text
                 .setPlaceholder('[${1}](${url})')
                 .setValue(this.pattern.outputTemplate)
                 .onChange(value => {
                     this.pattern.outputTemplate = value;
+                    this.updateTemplateValidation();
                     this.updateTestResult();
                 }));
 
+        this.placeholdersEl = contentEl.createDiv({ cls: 'pattern-placeholders' });
+        this.templateValidationEl = contentEl.createDiv({ cls: 'validation-message' });
+        this.updateTemplateValidation();
+
+        new Setting(contentEl)
+            .setName('Output format')
+            .setDesc('Wikilinks point to a note named after the label, created with the URL in its frontmatter.')
+            .addDropdown(dropdown => dropdown
+                .addOption('', 'Use default')
+                .addOptions(OUTPUT_FORMAT_NAMES)
+                .setValue(this.pattern.outputFormat ?? '')
+                .onChange(value => {
+                    this.pattern.outputFormat = value ? value as OutputFormat : undefined;
+                    this.updateTestResult();
+                }));
+
+        this.renderNoteActionSettings(contentEl);
+        this.renderCleanupSettings(contentEl);
+
         // Test section
         const testSection = contentEl.createDiv({ cls: 'pattern-test-section' });
         testSection.createEl('h4', { text: 'Test your pattern' });
@@ -272,6 +594,172 @@ class PatternEditModal extends Modal {
 
     private testInput: HTMLInputElement;
     private testResultEl: HTMLElement;
+    private placeholdersEl: HTMLElement;
+    private templateValidationEl: HTMLElement;
+
+    private renderNoteActionSettings(container: HTMLElement): void {
+        container.createEl('h4', { text: 'Link to note' });
+        const noteAction = this.pattern.noteAction ?? { enabled: false, pathTemplate: '' };
+        const update = (change: Partial<NoteAction>) => {
+            this.pattern.noteAction = { ...noteAction, ...this.pattern.noteAction, ...change };
+            this.updateTestResult();
+        };
+
+        new Setting(container)
+            .setName('Link to a note for each match')
+            .setDesc('Insert a wikilink to a vault note instead of the URL. The note is created on first use, with the URL, domain and captures in its frontmatter. The template label is used as the link text.')
+            .addToggle(toggle => toggle
+                .setValue(noteAction.enabled)
+                .onChange(value => update({ enabled: value })));
+
+        new Setting(container)
+            .setName('Note path')
+            .setDesc('Folder and file name, with the same placeholders as the output template')
+            .addText(text => text
+                .setPlaceholder('Tickets/${1}.md')
+                .setValue(noteAction.pathTemplate)
+                .onChange(value => update({ pathTemplate: value.trim() })));
+
+        new Setting(container)
+            .setName('Note template (optional)')
+            .setDesc('Vault path of a note used as the content of new notes. Placeholders in it are filled in.')
+            .addText(text => text
+                .setPlaceholder('Templates/Ticket.md')
+                .setValue(noteAction.templatePath ?? '')
+                .onChange(value => update({ templatePath: value.trim() || undefined })));
+    }
+
+    private renderCleanupSettings(container: HTMLElement): void {
+        container.createEl('h4', { text: 'URL cleanup' });
+        const cleanup = this.pattern.cleanup ?? createDefaultCleanup();
+        const update = (change: Partial<UrlCleanupOptions>) => {
+            this.pattern.cleanup = { ...cleanup, ...this.pattern.cleanup, ...change };
+            this.updateTestResult();
+        };
+
+        new Setting(container)
+            .setName('Query parameters')
+            .setDesc('Keep all parameters, only the listed ones, or all except the listed ones')
+            .addDropdown(dropdown => dropdown
+                .addOption('none', 'Keep all')
+                .addOption('allowlist', 'Keep only listed')
+                .addOption('denylist', 'Remove listed')
+                .setValue(cleanup.queryFilter)
+                .onChange(value => update({ queryFilter: value as UrlCleanupOptions['queryFilter'] })))
+            .addText(text => text
+                .setPlaceholder('utm_*, atlOrigin, from')
+                .setValue(cleanup.queryParams.join(', '))
+                .onChange(value => update({
+                    queryParams: value.split(',').map(param => param.trim()).filter(Boolean),
+                })));
+
+        new Setting(container)
+            .setName('Remove fragment')
+            .setDesc('Drop everything after #')
+            .addToggle(toggle => toggle
+                .setValue(cleanup.dropFragment)
+                .onChange(value => update({ dropFragment: value })));
+
+        new Setting(container)
+            .setName('Force https')
+            .addToggle(toggle => toggle
+                .setValue(cleanup.forceHttps)
+                .onChange(value => update({ forceHttps: value })));
+
+        new Setting(container)
+            .setName('Host rewrites')
+            .setDesc('One per line: from.example.com => to.example.com')
+            .addTextArea(text => {
+                text.setPlaceholder('go.company.com => company.atlassian.net')
+                    .setValue(cleanup.hostRewrites.map(r => `${r.from} => ${r.to}`).join('\n'))
+                    .onChange(value => update({
+                        hostRewrites: value.split('\n')
+                            .map(line => line.split('=>').map(part => part.trim()))
+                            .filter(parts => parts.length === 2 && parts[0] && parts[1])
+                            .map(([from, to]) => ({ from, to })),
+                    }));
+                text.inputEl.rows = 2;
+                text.inputEl.addClass('pattern-textarea');
+            });
+
+        new Setting(container)
+            .setName('Use cleaned URL for ${url}')
+            .setDesc('If off, the cleaned URL is only available as ${cleanUrl}')
+            .addToggle(toggle => toggle
+                .setValue(cleanup.replaceUrl)
+                .onChange(value => update({ replaceUrl: value })));
+    }
+
+    private addOptionalRegexSetting(
+        container: HTMLElement,
+        name: string,
+        desc: string,
+        value: string | undefined,
+        onChange: (value: string | undefined) => void
+    ): void {
+        const setting = new Setting(container)
+            .setName(name)
+            .setDesc(desc);
+
+        const validationEl = container.createDiv({ cls: 'validation-message' });
+
+        setting.addText(text => text
+            .setValue(value || '')
+            .onChange(newValue => {
+                const error = newValue ? validateRegexPattern(newValue) : null;
+                this.showRegexValidation(validationEl, error, newValue, '');
+                onChange(newValue || undefined);
+                this.updateTemplateValidation();
+                this.updateTestResult();
+            }));
+    }
+
+    /**
+     * Shows a regex error, or warnings about constructs that may freeze matching
+     */
+    private showRegexValidation(el: HTMLElement, error: string | null, value: string, validText: string): void {
+        const warnings = error ? [] : analyzeRegexSafety(value);
+        el.textContent = error ?? (warnings.length ? warnings.join('. ') : validText);
+        el.toggleClass('error', !!error);
+        el.toggleClass('warning', warnings.length > 0);
+    }
+
+    /**
+     * Capture groups of the path pattern plus named groups of the query and fragment patterns
+     */
+    private getAvailableGroups(): CaptureGroupInfo | null {
+        const groups = getCaptureGroups(this.pattern.pathPattern);
+        if (!groups) return null;
+
+        const names = [...groups.names];
+        for (const optionalPattern of [this.pattern.queryPattern, this.pattern.fragmentPattern]) {
+            const optionalGroups = optionalPattern ? getCaptureGroups(optionalPattern) : null;
+            if (optionalGroups) names.push(...optionalGroups.names);
+        }
+
+        return { count: groups.count, names };
+    }
+
+    private updateTemplateValidation(): void {
+        if (!this.placeholdersEl || !this.templateValidationEl) return;
+
+        // List the placeholders the current path pattern provides
+        const groups = this.getAvailableGroups();
+        const available = [...RESERVED_PLACEHOLDERS, 'query.name'];
+        if (groups) {
+            for (let i = 1; i <= groups.count; i++) available.push(String(i));
+            available.push(...groups.names);
+        }
+        this.placeholdersEl.textContent = `Available placeholders: ${available.map(name => `\${${name}}`).join(', ')}`;
+
+        const error = validateOutputTemplate(this.pattern.outputTemplate, groups ?? undefined);
+        const tableNames = (this.matchOptions.lookupTables ?? []).map(table => table.name);
+        const unknownTables = error ? [] : getLookupTableNames(this.pattern.outputTemplate).filter(name => !tableNames.includes(name));
+        this.templateValidationEl.textContent = error
+            ?? (unknownTables.length ? `Unknown lookup table(s): ${unknownTables.join(', ')}, values are kept as captured` : '');
+        this.templateValidationEl.toggleClass('error', !!error);
+        this.templateValidationEl.toggleClass('warning', unknownTables.length > 0);
+    }
 
     private updateTestResult(): void {
         if (!this.testInput || !this.testResultEl) return;
@@ -285,7 +773,7 @@ class PatternEditModal extends Modal {
         }
 
         try {
-            const result = matchPattern(testUrl, this.pattern);
+            const result = matchPattern(testUrl, this.pattern, this.matchOptions);
             if (result) {
                 this.testResultEl.textContent = `Result: ${result}`;
                 this.testResultEl.addClass('success');
@@ -314,18 +802,59 @@ class PatternEditModal extends Modal {
             return;
         }
 
+        const domainError = validateDomainPattern(this.pattern.domainPattern);
+        if (domainError) {
+            new Notice(`Invalid domain pattern: ${domainError}`);
+            return;
+        }
+
         const regexError = validateRegexPattern(this.pattern.pathPattern);
         if (regexError) {
             new Notice(`Invalid path pattern: ${regexError}`);
             return;
         }
 
-        const templateError = validateOutputTemplate(this.pattern.outputTemplate);
+        for (const optionalPattern of [this.pattern.queryPattern, this.pattern.fragmentPattern]) {
+            const optionalError = optionalPattern ? validateRegexPattern(optionalPattern) : null;
+            if (optionalError) {
+                new Notice(`Invalid query/fragment pattern: ${optionalError}`);
+                return;
+            }
+        }
+
+        const regexWarnings = [this.pattern.pathPattern, this.pattern.queryPattern, this.pattern.fragmentPattern]
+            .map(regex => regex ? analyzeRegexSafety(regex) : [])
+            .reduce((all, warnings) => all.concat(warnings), []);
+        if (regexWarnings.length) {
+            // Saved anyway; a pattern that repeatedly takes too long is disabled while matching
+            new Notice(`Warning: ${regexWarnings[0]}`);
+        }
+
+        const templateError = validateOutputTemplate(
+            this.pattern.outputTemplate,
+            this.getAvailableGroups() ?? undefined
+        );
         if (templateError) {
             new Notice(`Invalid template: ${templateError}`);
             return;
         }
 
+        if (this.pattern.noteAction?.enabled) {
+            const pathError = this.pattern.noteAction.pathTemplate
+                ? validateTemplateSyntax(this.pattern.noteAction.pathTemplate)
+                : 'note path is required';
+            if (pathError) {
+                new Notice(`Invalid note path: ${pathError}`);
+                return;
+            }
+        }
+
+        const noteNameError = validateNoteNameTemplates(this.pattern, this.matchOptions.defaultFormat);
+        if (noteNameError) {
+            new Notice(noteNameError);
+            return;
+        }
+
         this.onSave(this.pattern);
         this.close();
     }
@@ -0,0 +1,74 @@
+import { LinkPattern } from './types';
+import { MAX_HISTORY_ENTRIES, findUnusedPatterns, formatTimeAgo, pruneStats, recordUsage } from './stats';
+
+function pattern(id: string): LinkPattern {
+    return {
+        id,
+        name: id.toUpperCase(),
+        enabled: true,
+        domainPattern: 'example.com',
+        pathPattern: '\\/(\\d+)',
+        outputTemplate: '[${1}](${url})',
+    };
+}
+
+function edit(patternId: string, n: number) {
+    return { url: `https://example.com/${n}`, replacement: `[${n}](https://example.com/${n})`, patternId };
+}
+
+describe('recordUsage', () => {
+    it('should count matches and update last used per pattern', () => {
+        const data = { stats: { a: { count: 2, lastUsed: 100 } }, history: [] };
+        const result = recordUsage(data, [edit('a', 1), edit('b', 2), edit('a', 3)], 'Daily.md', 500);
+        expect(result.stats).toEqual({
+            a: { count: 4, lastUsed: 500 },
+            b: { count: 1, lastUsed: 500 },
+        });
+        expect(data.stats.a.count).toBe(2);
+    });
+
+    it('should add history entries newest first', () => {
+        const first = recordUsage({ stats: {}, history: [] }, [edit('a', 1)], 'One.md', 100);
+        const second = recordUsage(first, [edit('a', 2)], 'Two.md', 200);
+        expect(second.history).toEqual([
+            { url: 'https://example.com/2', output: '[2](https://example.com/2)', patternId: 'a', notePath: 'Two.md', timestamp: 200 },
+            { url: 'https://example.com/1', output: '[1](https://example.com/1)', patternId: 'a', notePath: 'One.md', timestamp: 100 },
+        ]);
+    });
+
+    it('should keep a bounded history', () => {
+        const edits = Array.from({ length: MAX_HISTORY_ENTRIES + 10 }, (_, i) => edit('a', i));
+        const result = recordUsage({ stats: {}, history: [] }, edits, '', 0);
+        expect(result.history).toHaveLength(MAX_HISTORY_ENTRIES);
+        expect(result.history[0].url).toBe(`https://example.com/${MAX_HISTORY_ENTRIES + 9}`);
+    });
+});
+
+describe('findUnusedPatterns', () => {
+    it('should return patterns without matches', () => {
+        const stats = { a: { count: 3, lastUsed: 1 }, b: { count: 0, lastUsed: 0 } };
+        expect(findUnusedPatterns([pattern('a'), pattern('b'), pattern('c')], stats).map(p => p.id)).toEqual(['b', 'c']);
+    });
+});
+
+describe('pruneStats', () => {
+    it('should drop statistics of deleted patterns', () => {
+        const stats = { a: { count: 3, lastUsed: 1 }, gone: { count: 1, lastUsed: 1 } };
+        expect(pruneStats(stats, [pattern('a'), pattern('b')])).toEqual({ a: { count: 3, lastUsed: 1 } });
+    });
+});
+
+describe('formatTimeAgo', () => {
+    const now = 10 * 24 * 60 * 60 * 1000;
+
+    it('should use the largest whole unit', () => {
+        expect(formatTimeAgo(now - 30 * 1000, now)).toBe('just now');
+        expect(formatTimeAgo(now - 60 * 1000, now)).toBe('1 minute ago');
+        expect(formatTimeAgo(now - 5 * 60 * 60 * 1000, now)).toBe('5 hours ago');
+        expect(formatTimeAgo(now - 3 * 24 * 60 * 60 * 1000, now)).toBe('3 days ago');
+    });
+
+    it('should treat future timestamps as now', () => {
+        expect(formatTimeAgo(now + 1000, now)).toBe('just now');
+    });
+});
@@ -0,0 +1,82 @@
+import { HistoryEntry, LinkPattern, PatternStats } from './types';
+import { LinkEdit } from './link-scanner';
+
+/** How many recent shortenings are kept */
+export const MAX_HISTORY_ENTRIES = 100;
+
+/**
+ * Match statistics and recent shortenings, as stored in the settings
+ */
+export interface UsageData {
+    stats: Record<string, PatternStats>;
+    history: HistoryEntry[];
+}
+
+/**
+ * Counts applied edits per pattern and adds them to the history (newest first)
+ */
+export function recordUsage(
+    data: UsageData,
+    edits: Pick<LinkEdit, 'url' | 'replacement' | 'patternId'>[],
+    notePath: string,
+    now: number
+): UsageData {
+    const stats = { ...data.stats };
+    for (const edit of edits) {
+        const previous = stats[edit.patternId];
+        stats[edit.patternId] = { count: (previous ? previous.count : 0) + 1, lastUsed: now };
+    }
+
+    const entries: HistoryEntry[] = edits.map(edit => ({
+        url: edit.url,
+        output: edit.replacement,
+        patternId: edit.patternId,
+        notePath,
+        timestamp: now,
+    }));
+
+    return {
+        stats,
+        history: [...entries.reverse(), ...data.history].slice(0, MAX_HISTORY_ENTRIES),
+    };
+}
+
+/**
+ * Returns the patterns that never matched
+ */
+export function findUnusedPatterns(patterns: LinkPattern[], stats: Record<string, PatternStats>): LinkPattern[] {
+    return patterns.filter(pattern => !stats[pattern.id] || stats[pattern.id].count === 0);
+}
+
+/**
+ * Drops statistics of patterns that no longer exist
+ */
+export function pruneStats(stats: Record<string, PatternStats>, patterns: LinkPattern[]): Record<string, PatternStats> {
+    const pruned: Record<string, PatternStats> = {};
+    for (const pattern of patterns) {
+        if (stats[pattern.id]) {
+            pruned[pattern.id] = stats[pattern.id];
+        }
+    }
+    return pruned;
+}
+
+const TIME_UNITS: [string, number][] = [
+    ['day', 24 * 60 * 60 * 1000],
+    ['hour', 60 * 60 * 1000],
+    ['minute', 60 * 1000],
+];
+
+/**
+ * Formats a timestamp relative to now, e.g. "3 days ago"
+ */
+export function formatTimeAgo(timestamp: number, now: number): string {
+    const elapsed = Math.max(0, now - timestamp);
+    for (const [unit, ms] of TIME_UNITS) {
+        const amount = Math.floor(elapsed / ms);
+        if (amount >= 1) {
+            return `${amount} ${unit}${amount === 1 ? '' : 's'} ago`;
+        }
+    }
+    return 'just now';
+}
@@ -0,0 +1,206 @@
+import { TemplateValues, getLookupTableNames, getTemplatePlaceholders, renderTemplate, validateTemplateSyntax } from './template';
+
+const values: TemplateValues = {
+    url: { value: 'https://example.com/a+b', raw: 'https://example.com/a+b' },
+    '1': { value: 'Hello World Page', raw: 'Hello+World+Page' },
+    '2': { value: 'my-design-file', raw: 'my-design-file' },
+    '3': { value: '', raw: '' },
+};
+
+describe('renderTemplate', () => {
+    it('should replace plain placeholders', () => {
+        expect(renderTemplate('[${1}](${url})', values)).toBe('[Hello World Page](https://example.com/a+b)');
+    });
+
+    it('should render missing capture groups as empty text', () => {
+        expect(renderTemplate('${1}|${9}', values)).toBe('Hello World Page|');
+    });
+
+    it('should leave unknown named placeholders untouched', () => {
+        expect(renderTemplate('${nope} ${1}', values)).toBe('${nope} Hello World Page');
+    });
+
+    it('should apply case filters', () => {
+        expect(renderTemplate('${1|upper}', values)).toBe('HELLO WORLD PAGE');
+        expect(renderTemplate('${1|lower}', values)).toBe('hello world page');
+        expect(renderTemplate('${2|title}', values)).toBe('My-Design-File');
+    });
+
+    it('should apply slug', () => {
+        expect(renderTemplate('${1|slug}', values)).toBe('hello-world-page');
+    });
+
+    it('should apply truncate with optional suffix', () => {
+        expect(renderTemplate('${1|truncate:5}', values)).toBe('Hello…');
+        expect(renderTemplate('${1|truncate:5:...}', values)).toBe('Hello...');
+        expect(renderTemplate('${1|truncate:40}', values)).toBe('Hello World Page');
+    });
+
+    it('should apply replace', () => {
+        expect(renderTemplate('${2|replace:-: }', values)).toBe('my design file');
+    });
+
+    it('should support escaped separators in arguments', () => {
+        expect(renderTemplate('${2|replace:-:\\:}', values)).toBe('my:design:file');
+    });
+
+    it('should apply default to empty values', () => {
+        expect(renderTemplate('${3|default:n/a}', values)).toBe('n/a');
+        expect(renderTemplate('${9|default:n/a}', values)).toBe('n/a');
+        expect(renderTemplate('${1|default:n/a}', values)).toBe('Hello World Page');
+    });
+
+    it('should chain filters left to right', () => {
+        expect(renderTemplate('${2|replace:-: |title}', values)).toBe('My Design File');
+        expect(renderTemplate('${1|upper|truncate:5}', values)).toBe('HELLO…');
+    });
+
+    it('should skip decoding with raw', () => {
+        expect(renderTemplate('${1|raw}', values)).toBe('Hello+World+Page');
+        expect(renderTemplate('${1|raw|lower}', values)).toBe('hello+world+page');
+    });
+
+    it('should keep ${title} for later resolution and render its fallback', () => {
+        expect(renderTemplate('[${title}](${url})', values)).toBe('[${title}](https://example.com/a+b)');
+        expect(renderTemplate('${title|Page ${2|upper}}', values)).toBe('${title|Page MY-DESIGN-FILE}');
+    });
+
+    it('should keep unclosed placeholders as text', () => {
+        expect(renderTemplate('[${1', values)).toBe('[${1');
+    });
+});
+
+describe('renderTemplate with conditional sections', () => {
+    const github: TemplateValues = {
+        '1': { value: 'owner/repo', raw: 'owner/repo' },
+        '2': { value: 'pull', raw: 'pull' },
+        '3': { value: '42', raw: '42' },
+        empty: { value: '', raw: '' },
+    };
+
+    it('should compare a value with =', () => {
+        expect(renderTemplate('${2=pull?PR:Issue} ${3}', github)).toBe('PR 42');
+        expect(renderTemplate('${2=issues?Issue:PR} ${3}', github)).toBe('PR 42');
+    });
+
+    it('should compare a value with !=', () => {
+        expect(renderTemplate('${2!=pull?Issue:PR}', github)).toBe('PR');
+        expect(renderTemplate('${2!=issues?not an issue}', github)).toBe('not an issue');
+    });
+
+    it('should test for a non-empty value without a comparison', () => {
+        expect(renderTemplate('${3?#${3}:none}', github)).toBe('#42');
+        expect(renderTemplate('${empty?set:unset}', github)).toBe('unset');
+        expect(renderTemplate('${missing?set:unset}', github)).toBe('unset');
+        expect(renderTemplate('[${1}${empty? (${empty})}]', github)).toBe('[owner/repo]');
+    });
+
+    it('should render placeholders, filters and nested conditions in either branch', () => {
+        const template = '${2=issues?Issue:${2=pull?PR ${1|upper}#${3}:Commit}}';
+        expect(renderTemplate(template, github)).toBe('PR OWNER/REPO#42');
+        expect(renderTemplate(template, { ...github, '2': { value: 'commit', raw: 'commit' } })).toBe('Commit');
+    });
+
+    it('should support escaped separators in the value and branches', () => {
+        const values: TemplateValues = { kind: { value: 'a?b', raw: 'a?b' } };
+        expect(renderTemplate('${kind=a\\?b?yes\\: really:no}', values)).toBe('yes: really');
+    });
+
+    it('should not treat filter arguments containing ? as conditions', () => {
+        expect(renderTemplate('${1|replace:Page:?}', values)).toBe('Hello World ?');
+        expect(renderTemplate('${title|What?}', values)).toBe('${title|What?}');
+    });
+});
+
+describe('renderTemplate with lookup tables', () => {
+    const context = {
+        lookupTables: [{ name: 'projects', entries: { DEVOPS: 'Platform', 'acme-internal/payments-svc': 'Payments' } }],
+    };
+    const project = (value: string): TemplateValues => ({ '1': { value, raw: value } });
+
+    it('should map values through a table', () => {
+        expect(renderTemplate('${1|map:projects}', project('DEVOPS'), context)).toBe('Platform');
+        expect(renderTemplate('${1|map:projects}', project('acme-internal/payments-svc'), context)).toBe('Payments');
+    });
+
+    it('should match keys ignoring case when there is no exact key', () => {
+        expect(renderTemplate('${1|map:projects}', project('devops'), context)).toBe('Platform');
+    });
+
+    it('should keep the value or use the fallback when there is no entry', () => {
+        expect(renderTemplate('${1|map:projects}', project('OPS'), context)).toBe('OPS');
+        expect(renderTemplate('${1|map:projects:Other}', project('OPS'), context)).toBe('Other');
+        expect(renderTemplate('${1|map:teams:Other}', project('DEVOPS'), context)).toBe('Other');
+        expect(renderTemplate('${1|map:projects}', project('DEVOPS'))).toBe('DEVOPS');
+    });
+
+    it('should chain with other filters', () => {
+        expect(renderTemplate('${1|lower|map:projects|upper}', project('DEVOPS'), context)).toBe('PLATFORM');
+    });
+});
+
+describe('validateTemplateSyntax', () => {
+    it('should accept valid filters', () => {
+        expect(validateTemplateSyntax('[${1|upper|truncate:40}](${url})')).toBeNull();
+        expect(validateTemplateSyntax('${1|replace:-: }')).toBeNull();
+        expect(validateTemplateSyntax('${1|default:n/a}')).toBeNull();
+        expect(validateTemplateSyntax('${title|SENTRY-${1}}')).toBeNull();
+    });
+
+    it('should reject unknown filters', () => {
+        expect(validateTemplateSyntax('${1|shout}')).toContain('Unknown filter "shout"');
+    });
+
+    it('should reject wrong argument counts', () => {
+        expect(validateTemplateSyntax('${1|upper:x}')).not.toBeNull();
+        expect(validateTemplateSyntax('${1|truncate}')).not.toBeNull();
+        expect(validateTemplateSyntax('${1|replace:a}')).not.toBeNull();
+    });
+
+    it('should reject invalid arguments', () => {
+        expect(validateTemplateSyntax('${1|truncate:abc}')).not.toBeNull();
+        expect(validateTemplateSyntax('${1|truncate:0}')).not.toBeNull();
+        expect(validateTemplateSyntax('${1|replace::x}')).not.toBeNull();
+    });
+
+    it('should reject unclosed and empty placeholders', () => {
+        expect(validateTemplateSyntax('[${1](${url})')).not.toBeNull();
+        expect(validateTemplateSyntax('${}')).not.toBeNull();
+    });
+
+    it('should require a table name for map', () => {
+        expect(validateTemplateSyntax('${1|map:projects:Other}')).toBeNull();
+        expect(validateTemplateSyntax('${1|map: }')).toContain('map needs a table name');
+        expect(validateTemplateSyntax('${1|map}')).not.toBeNull();
+    });
+
+    it('should validate title fallbacks', () => {
+        expect(validateTemplateSyntax('${title|${1|shout}}')).not.toBeNull();
+    });
+
+    it('should validate conditional sections', () => {
+        expect(validateTemplateSyntax('[${2=pull?PR:Issue} ${1}](${url})')).toBeNull();
+        expect(validateTemplateSyntax('${2?${1|upper}}')).toBeNull();
+        expect(validateTemplateSyntax('${2=pull?${1|shout}:x}')).toContain('Unknown filter "shout"');
+        expect(validateTemplateSyntax('${2=pull?x:${1}')).not.toBeNull();
+        expect(validateTemplateSyntax('${title?a:b}')).toContain("can't be used in a condition");
+    });
+});
+
+describe('getTemplatePlaceholders', () => {
+    it('should list placeholder names including nested ones', () => {
+        expect(getTemplatePlaceholders('[${1|upper}](${url}) ${title|${2}}')).toEqual(['1', 'url', 'title', '2']);
+    });
+
+    it('should list condition names and placeholders in both branches', () => {
+        expect(getTemplatePlaceholders('${2=pull?PR ${3}:${kind}}')).toEqual(['2', '3', 'kind']);
+    });
+});
+
+describe('getLookupTableNames', () => {
+    it('should list tables used by map filters, including nested and conditional ones', () => {
+        expect(getLookupTableNames('[${1|map:projects}](${url}) ${title|${2|map:teams}}')).toEqual(['projects', 'teams']);
+        expect(getLookupTableNames('${2=pull?${1|map:repos}:x}')).toEqual(['repos']);
+        expect(getLookupTableNames('${1|upper}')).toEqual([]);
+    });
+});
@@ -0,0 +1,416 @@
+import { LookupTable } from './types';
+import { lookupValue } from './lookup-tables';
+
+/**
+ * A value available to templates.
+ * `value` is what placeholders insert; `raw` is the undecoded original used by the `raw` filter.
+ */
+export interface TemplateValue {
+    value: string;
+    raw: string;
+}
+
+export type TemplateValues = Record<string, TemplateValue>;
+
+/**
+ * Settings that filters can use while rendering
+ */
+export interface TemplateContext {
+    /** Tables for the map filter */
+    lookupTables?: LookupTable[];
+}
+
+/**
+ * A filter applied with the pipe syntax, e.g. ${1|truncate:40}
+ */
+interface TemplateFilter {
+    minArgs: number;
+    maxArgs: number;
+
+    /** Returns an error message for invalid arguments */
+    validate?: (args: string[]) => string | null;
+
+    apply: (value: string, args: string[], context: TemplateContext) => string;
+}
+
+type TemplateToken =
+    | { type: 'text'; text: string }
+    | { type: 'placeholder'; source: string; name: string; filters: FilterCall[]; body: string }
+    | ({ type: 'conditional'; source: string } & Condition);
+
+/**
+ * A conditional section, e.g. ${2=pull?PR:Issue}, ${2!=pull?...} or ${name?then:else}
+ */
+interface Condition {
+    name: string;
+
+    /** null tests whether the value is non-empty */
+    operator: '=' | '!=' | null;
+    value: string;
+
+    /** Templates rendered when the condition holds or not */
+    then: string;
+    otherwise: string;
+}
+
+interface FilterCall {
+    name: string;
+    args: string[];
+}
+
+/**
+ * Placeholders that are resolved after rendering (see title-fetcher.ts).
+ * Their text after the pipe is a fallback template, not a filter chain.
+ */
+const DEFERRED_PLACEHOLDERS = ['title'];
+
+/**
+ * Placeholders that render as empty text when missing: capture groups and query parameters
+ */
+const OPTIONAL_PLACEHOLDER_REGEX = /^(?:\d+|query\..+)$/;
+
+/**
+ * Start of a conditional section: a placeholder name, optionally compared with = or != to a value
+ */
+const CONDITION_REGEX = /^\s*([^\s=!?|:{}$\\]+)\s*(?:(!?=)([\s\S]*))?$/;
+
+/**
+ * Filters that only change how the value is looked up, handled before the chain runs
+ */
+const RAW_FILTER = 'raw';
+
+export const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+    upper: {
+        minArgs: 0,
+        maxArgs: 0,
+        apply: value => value.toUpperCase(),
+    },
+
+    lower: {
+        minArgs: 0,
+        maxArgs: 0,
+        apply: value => value.toLowerCase(),
+    },
+
+    title: {
+        minArgs: 0,
+        maxArgs: 0,
+        apply: value => value.toLowerCase().replace(/(^|[\s\-_])(\S)/g, (_m, sep: string, char: string) => sep + char.toUpperCase()),
+    },
+
+    slug: {
+        minArgs: 0,
+        maxArgs: 0,
+        apply: value => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, ''),
+    },
+
+    truncate: {
+        minArgs: 1,
+        maxArgs: 2,
+        validate: args => /^[1-9]\d*$/.test(args[0]) ? null : 'truncate length must be a positive integer',
+        apply: (value, args) => {
+            const length = parseInt(args[0], 10);
+            const suffix = args.length > 1 ? args[1] : '…';
+            return value.length > length ? value.slice(0, length) + suffix : value;
+        },
+    },
+
+    replace: {
+        minArgs: 2,
+        maxArgs: 2,
+        validate: args => args[0] ? null : 'replace needs a non-empty search text',
+        apply: (value, args) => value.split(args[0]).join(args[1]),
+    },
+
+    default: {
+        minArgs: 1,
+        maxArgs: 1,
+        apply: (value, args) => value || args[0],
+    },
+
+    map: {
+        minArgs: 1,
+        maxArgs: 2,
+        validate: args => args[0].trim() ? null : 'map needs a table name',
+        // Unknown values (or tables) give the fallback if there is one, else the value itself
+        apply: (value, args, context) => {
+            const mapped = lookupValue(context.lookupTables ?? [], args[0].trim(), value);
+            return mapped ?? (args.length > 1 ? args[1] : value);
+        },
+    },
+
+    [RAW_FILTER]: {
+        minArgs: 0,
+        maxArgs: 0,
+        apply: value => value,
+    },
+};
+
+/**
+ * Finds the index of the "}" closing a placeholder that starts at `start` (the "$").
+ * Nested placeholders and backslash escapes are skipped. Returns -1 if unclosed.
+ */
+function findClosingBrace(template: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < template.length; i++) {
+        const char = template[i];
+        if (char === '\\') {
+            i++;
+        } else if (char === '$' && template[i + 1] === '{') {
+            depth++;
+            i++;
+        } else if (char === '}') {
+            depth--;
+            if (depth === 0) return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Splits text on an unescaped separator outside nested placeholders.
+ * Backslash escapes are kept unless `unescape` is set.
+ */
+function splitOnSeparator(text: string, separator: string, unescape: boolean): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let depth = 0;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '\\' && i + 1 < text.length) {
+            current += depth > 0 || !unescape ? char + text[i + 1] : text[i + 1];
+            i++;
+        } else if (char === '$' && text[i + 1] === '{') {
+            depth++;
+            current += '${';
+            i++;
+        } else if (char === '}' && depth > 0) {
+            depth--;
+            current += char;
+        } else if (char === separator && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+
+    parts.push(current);
+    return parts;
+}
+
+/**
+ * Parses the body of a conditional section, or returns null if the placeholder isn't one.
+ * The comparison value ends at the first unescaped "?", the "then" template at the first unescaped ":".
+ */
+function parseCondition(body: string): Condition | null {
+    const [head, ...rest] = splitOnSeparator(body, '?', false);
+    const match = rest.length > 0 ? head.match(CONDITION_REGEX) : null;
+    if (!match) return null;
+
+    const [then, ...otherwise] = splitOnSeparator(rest.join('?'), ':', true);
+    return {
+        name: match[1],
+        operator: (match[2] as '=' | '!=' | undefined) ?? null,
+        value: (match[3] ?? '').replace(/\\(.)/g, '$1'),
+        then,
+        otherwise: otherwise.join(':'),
+    };
+}
+
+/**
+ * Parses a template into literal text, placeholders and conditional sections.
+ * In strict mode unclosed placeholders throw, otherwise they are kept as literal text.
+ */
+function tokenize(template: string, strict = false): TemplateToken[] {
+    const tokens: TemplateToken[] = [];
+    let text = '';
+    let i = 0;
+
+    while (i < template.length) {
+        if (template[i] === '$' && template[i + 1] === '{') {
+            const end = findClosingBrace(template, i);
+            if (end < 0) {
+                if (strict) {
+                    throw new Error(`Unclosed placeholder at position ${i + 1}`);
+                }
+                text += template.slice(i);
+                break;
+            }
+
+            if (text) tokens.push({ type: 'text', text });
+            text = '';
+
+            const body = template.slice(i + 2, end);
+            const condition = parseCondition(body);
+            if (condition) {
+                tokens.push({ type: 'conditional', source: template.slice(i, end + 1), ...condition });
+                i = end + 1;
+                continue;
+            }
+
+            const [name, ...filterParts] = splitOnSeparator(body, '|', false);
+            tokens.push({
+                type: 'placeholder',
+                source: template.slice(i, end + 1),
+                name: name.trim(),
+                body,
+                filters: filterParts.map(part => {
+                    const [filterName, ...args] = splitOnSeparator(part, ':', true);
+                    return { name: filterName.trim(), args };
+                }),
+            });
+            i = end + 1;
+        } else {
+            text += template[i];
+            i++;
+        }
+    }
+
+    if (text) tokens.push({ type: 'text', text });
+    return tokens;
+}
+
+/**
+ * Returns the placeholder names used in a template (including nested ones)
+ */
+export function getTemplatePlaceholders(template: string): string[] {
+    const names: string[] = [];
+    for (const token of tokenize(template)) {
+        if (token.type === 'conditional') {
+            names.push(token.name, ...getTemplatePlaceholders(token.then), ...getTemplatePlaceholders(token.otherwise));
+        } else if (token.type === 'placeholder') {
+            names.push(token.name);
+            names.push(...getTemplatePlaceholders(token.body.slice(token.name.length)));
+        }
+    }
+    return names;
+}
+
+/**
+ * Returns the lookup table names used by map filters in a template (including nested placeholders)
+ */
+export function getLookupTableNames(template: string): string[] {
+    const names: string[] = [];
+    for (const token of tokenize(template)) {
+        if (token.type === 'conditional') {
+            names.push(...getLookupTableNames(token.then), ...getLookupTableNames(token.otherwise));
+        } else if (token.type === 'placeholder') {
+            for (const filter of token.filters) {
+                if (filter.name === 'map' && filter.args.length > 0) names.push(filter.args[0].trim());
+            }
+            names.push(...getLookupTableNames(token.body.slice(token.name.length)));
+        }
+    }
+    return names;
+}
+
+/**
+ * Validates placeholder syntax, filter names and filter arguments
+ * Returns null if valid, error message if invalid
+ */
+export function validateTemplateSyntax(template: string): string | null {
+    let tokens: TemplateToken[];
+    try {
+        tokens = tokenize(template, true);
+    } catch (e) {
+        return e instanceof Error ? e.message : 'Invalid template';
+    }
+
+    for (const token of tokens) {
+        if (token.type === 'text') continue;
+
+        if (token.type === 'conditional') {
+            if (DEFERRED_PLACEHOLDERS.includes(token.name)) {
+                return `\${${token.name}} can't be used in a condition: ${token.source}`;
+            }
+            const branchError = validateTemplateSyntax(token.then) ?? validateTemplateSyntax(token.otherwise);
+            if (branchError) return branchError;
+            continue;
+        }
+
+        if (!token.name) {
+            return `Empty placeholder ${token.source}`;
+        }
+
+        if (DEFERRED_PLACEHOLDERS.includes(token.name)) {
+            const fallback = token.body.slice(token.name.length + 1);
+            const fallbackError = fallback ? validateTemplateSyntax(fallback) : null;
+            if (fallbackError) return fallbackError;
+            continue;
+        }
+
+        for (const filter of token.filters) {
+            const definition = TEMPLATE_FILTERS[filter.name];
+            if (!definition) {
+                return `Unknown filter "${filter.name}" in ${token.source}`;
+            }
+            if (filter.args.length < definition.minArgs || filter.args.length > definition.maxArgs) {
+                const expected = definition.minArgs === definition.maxArgs
+                    ? `${definition.minArgs}`
+                    : `${definition.minArgs}-${definition.maxArgs}`;
+                return `Filter "${filter.name}" expects ${expected} argument(s) in ${token.source}`;
+            }
+            const argError = definition.validate ? definition.validate(filter.args) : null;
+            if (argError) {
+                return `${argError} in ${token.source}`;
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Evaluates the condition of a conditional section; missing values count as empty
+ */
+function isConditionMet(condition: Condition, values: TemplateValues): boolean {
+    const value = values[condition.name]?.value ?? '';
+    switch (condition.operator) {
+        case '=': return value === condition.value;
+        case '!=': return value !== condition.value;
+        default: return value !== '';
+    }
+}
+
+/**
+ * Renders a template with the given values.
+ * - Missing capture groups and query parameters render as empty text
+ * - Conditional sections render one of their two templates
+ * - Other unknown placeholders are left untouched
+ * - Deferred placeholders like ${title} are kept for later resolution, with their fallback rendered
+ */
+export function renderTemplate(template: string, values: TemplateValues, context: TemplateContext = {}): string {
+    return tokenize(template).map(token => {
+        if (token.type === 'text') return token.text;
+
+        if (token.type === 'conditional') {
+            return renderTemplate(isConditionMet(token, values) ? token.then : token.otherwise, values, context);
+        }
+
+        if (DEFERRED_PLACEHOLDERS.includes(token.name)) {
+            const fallback = token.body.slice(token.name.length + 1);
+            return fallback
+                ? `\${${token.name}|${renderTemplate(fallback, values, context)}}`
+                : token.source;
+        }
+
+        const variable = values[token.name];
+        if (!variable && !OPTIONAL_PLACEHOLDER_REGEX.test(token.name)) {
+            return token.source;
+        }
+
+        const useRaw = token.filters.some(filter => filter.name === RAW_FILTER);
+        let value = variable ? (useRaw ? variable.raw : variable.value) : '';
+
+        for (const filter of token.filters) {
+            const definition = TEMPLATE_FILTERS[filter.name];
+            if (definition) {
+                value = definition.apply(value, filter.args, context);
+            }
+        }
+
+        return value;
+    }).join('');
+}
@@ -0,0 +1,176 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+    HttpGet,
+    TitleFetcher,
+    extractPageTitle,
+    fillTitlePlaceholders,
+    hasTitlePlaceholder,
+    markTitlesPending,
+    TITLE_PENDING_TEXT,
+} from './title-fetcher';
+
+// Stub pages served by the local test server
+const PAGES: Record<string, { status: number; body: string; delayMs?: number }> = {
+    '/title': { status: 200, body: '<html><head><title>\n  Login fails &amp; crashes\n</title></head></html>' },
+    '/og': {
+        status: 200,
+        body: '<head><title>Site - Page</title><meta property="og:title" content="Fix login bug"></head>',
+    },
+    '/none': { status: 200, body: '<html><body>No title here</body></html>' },
+    '/missing': { status: 404, body: '<title>Not Found</title>' },
+    '/slow': { status: 200, body: '<title>Too late</title>', delayMs: 500 },
+    '/hostile': { status: 200, body: '<title>&lt;img src=x&gt; Tom &amp; Jerry | [[Notes]] #1</title>' },
+};
+
+let server: http.Server;
+let baseUrl: string;
+let requestCount: Record<string, number>;
+
+const httpGet: HttpGet = (url) => new Promise((resolve, reject) => {
+    http.get(url, res => {
+        let text = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => text += chunk);
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, text }));
+    }).on('error', reject);
+});
+
+beforeAll(done => {
+    server = http.createServer((req, res) => {
+        const path = req.url ?? '';
+        requestCount[path] = (requestCount[path] ?? 0) + 1;
+        const page = PAGES[path] ?? { status: 404, body: '' };
+        setTimeout(() => {
+            res.writeHead(page.status, { 'Content-Type': 'text/html' });
+            res.end(page.body);
+        }, page.delayMs ?? 0);
+    });
+    server.listen(0, '127.0.0.1', () => {
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        done();
+    });
+});
+
+afterAll(done => {
+    server.close(() => done());
+    // Keep-alive connections would hold the server open for seconds (Node 18.2+, not yet in @types/node here)
+    (server as http.Server & { closeAllConnections(): void }).closeAllConnections();
+});
+
+beforeEach(() => {
+    requestCount = {};
+});
+
+describe('extractPageTitle', () => {
+    it('should read and clean the <title> element', () => {
+        expect(extractPageTitle(PAGES['/title'].body)).toBe('Login fails & crashes');
+    });
+
+    it('should prefer the OpenGraph title', () => {
+        expect(extractPageTitle(PAGES['/og'].body)).toBe('Fix login bug');
+    });
+
+    it('should return null when there is no title', () => {
+        expect(extractPageTitle(PAGES['/none'].body)).toBeNull();
+    });
+});
+
+describe('title placeholders', () => {
+    it('should detect ${title} and ${title|fallback}', () => {
+        expect(hasTitlePlaceholder('[${title}](${url})')).toBe(true);
+        expect(hasTitlePlaceholder('[${title|SENTRY-1}](${url})')).toBe(true);
+        expect(hasTitlePlaceholder('[${1}](${url})')).toBe(false);
+    });
+
+    it('should mark titles as pending', () => {
+        expect(markTitlesPending('[${title|x}](u)')).toBe(`[${TITLE_PENDING_TEXT}](u)`);
+    });
+
+    it('should fill in the fetched title', () => {
+        expect(fillTitlePlaceholders('[${title|x}](u)', 'Hello', 'u')).toBe('[Hello](u)');
+    });
+
+    it('should escape brackets in titles', () => {
+        expect(fillTitlePlaceholders('[${title}](u)', '[DEV-1] Fix', 'u')).toBe('[\\[DEV-1\\] Fix](u)');
+    });
+
+    it('should escape titles for the output format', () => {
+        const title = '<b>Tom & Jerry</b> | [[Notes]]';
+        expect(fillTitlePlaceholders('<a href="u">${title}</a>', title, 'u', 'html'))
+            .toBe('<a href="u">&lt;b&gt;Tom &amp; Jerry&lt;/b&gt; | [[Notes]]</a>');
+        expect(fillTitlePlaceholders('[[${title}]]', title, 'u', 'wikilink')).toBe('[[b Tom & Jerry b Notes]]');
+        expect(fillTitlePlaceholders('${title}', title, 'u', 'text')).toBe(title);
+        expect(fillTitlePlaceholders('[${title}](u)', title, 'u', 'markdown'))
+            .toBe('[\\<b>Tom & Jerry\\</b> | \\[\\[Notes\\]\\]](u)');
+    });
+
+    it('should use the fallback when there is no title', () => {
+        expect(fillTitlePlaceholders('[${title|SENTRY-1}](u)', null, 'u')).toBe('[SENTRY-1](u)');
+        expect(fillTitlePlaceholders('[${title}](u)', null, 'u')).toBe('[u](u)');
+    });
+});
+
+describe('TitleFetcher', () => {
+    it('should fetch the page title', async () => {
+        const fetcher = new TitleFetcher(httpGet);
+        expect(await fetcher.fetchTitle(`${baseUrl}/og`)).toBe('Fix login bug');
+    });
+
+    it('should cache fetched titles', async () => {
+        const fetcher = new TitleFetcher(httpGet);
+        await fetcher.fetchTitle(`${baseUrl}/title`);
+        await fetcher.fetchTitle(`${baseUrl}/title`);
+        expect(requestCount['/title']).toBe(1);
+    });
+
+    it('should share concurrent requests for the same URL', async () => {
+        const fetcher = new TitleFetcher(httpGet);
+        const titles = await Promise.all([
+            fetcher.fetchTitle(`${baseUrl}/title`),
+            fetcher.fetchTitle(`${baseUrl}/title`),
+        ]);
+        expect(titles).toEqual(['Login fails & crashes', 'Login fails & crashes']);
+        expect(requestCount['/title']).toBe(1);
+    });
+
+    it('should expire cached titles', async () => {
+        const fetcher = new TitleFetcher(httpGet, { cacheTtlMs: -1 });
+        await fetcher.fetchTitle(`${baseUrl}/title`);
+        await fetcher.fetchTitle(`${baseUrl}/title`);
+        expect(requestCount['/title']).toBe(2);
+    });
+
+    it('should return null for error responses', async () => {
+        const fetcher = new TitleFetcher(httpGet);
+        expect(await fetcher.fetchTitle(`${baseUrl}/missing`)).toBeNull();
+    });
+
+    it('should return null when the request fails', async () => {
+        const fetcher = new TitleFetcher(() => Promise.reject(new Error('offline')));
+        expect(await fetcher.fetchTitle(`${baseUrl}/title`)).toBeNull();
+    });
+
+    it('should give up after the timeout', async () => {
+        const fetcher = new TitleFetcher(httpGet, { timeoutMs: 50 });
+        expect(await fetcher.fetchTitle(`${baseUrl}/slow`)).toBeNull();
+    });
+
+    it('should resolve placeholders in formatted output', async () => {
+        const fetcher = new TitleFetcher(httpGet);
+        const url = `${baseUrl}/og`;
+        expect(await fetcher.resolve(`[SENTRY-1: \${title}](${url})`, url))
+            .toBe(`[SENTRY-1: Fix login bug](${url})`);
+        expect(await fetcher.resolve(`[\${title|SENTRY-1}](${baseUrl}/none)`, `${baseUrl}/none`))
+            .toBe(`[SENTRY-1](${baseUrl}/none)`);
+    });
+
+    it('should not let a hostile page title break HTML links or wikilinks', async () => {
+        const fetcher = new TitleFetcher(httpGet);
+        const url = `${baseUrl}/hostile`;
+        expect(await fetcher.resolve(`<a href="${url}">\${title}</a>`, url, 'html'))
+            .toBe(`<a href="${url}">&lt;img src=x&gt; Tom &amp; Jerry | [[Notes]] #1</a>`);
+        expect(await fetcher.resolve('[[Links/${title}|${title}]]', url, 'wikilink'))
+            .toBe('[[Links/img src=x Tom & Jerry Notes 1|img src=x Tom & Jerry Notes 1]]');
+    });
+});
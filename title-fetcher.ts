@@ -0,0 +1,178 @@
+import { OutputFormat } from './types';
+import { decodeHtmlEntities } from './utils';
+import { escapeHtml, sanitizeNoteName } from './output-format';
+
+/**
+ * Minimal HTTP GET used to download pages.
+ * The plugin passes a wrapper around Obsidian's requestUrl; tests use Node's http module.
+ */
+export type HttpGet = (url: string) => Promise<{ status: number; text: string }>;
+
+export interface TitleFetcherOptions {
+    /** Give up on a page after this many milliseconds */
+    timeoutMs: number;
+
+    /** How long a fetched title stays cached */
+    cacheTtlMs: number;
+
+    /** Oldest entries are evicted beyond this size */
+    maxCacheEntries: number;
+}
+
+export const DEFAULT_TITLE_FETCHER_OPTIONS: TitleFetcherOptions = {
+    timeoutMs: 5000,
+    cacheTtlMs: 60 * 60 * 1000,
+    maxCacheEntries: 500,
+};
+
+/** Text shown in place of ${title} while the page is being fetched */
+export const TITLE_PENDING_TEXT = 'Fetching title…';
+
+// ${title} or ${title|fallback}
+const TITLE_PLACEHOLDER_REGEX = /\$\{title(?:\|([^}]*))?\}/g;
+
+/**
+ * Checks whether formatted output still contains ${title} placeholders
+ */
+export function hasTitlePlaceholder(text: string): boolean {
+    return new RegExp(TITLE_PLACEHOLDER_REGEX.source).test(text);
+}
+
+/**
+ * Replaces ${title} placeholders with the pending text
+ */
+export function markTitlesPending(text: string): string {
+    return text.replace(TITLE_PLACEHOLDER_REGEX, TITLE_PENDING_TEXT);
+}
+
+/**
+ * Replaces ${title} placeholders with the fetched title, escaped for the output format.
+ * If no title is available, ${title|fallback} uses its fallback and ${title} uses defaultFallback.
+ */
+export function fillTitlePlaceholders(
+    text: string,
+    title: string | null,
+    defaultFallback: string,
+    format: OutputFormat = 'template'
+): string {
+    return text.replace(TITLE_PLACEHOLDER_REGEX, (_match, fallback: string | undefined) => {
+        if (title) return escapeTitle(title, format);
+        return fallback !== undefined ? fallback : defaultFallback;
+    });
+}
+
+/**
+ * Escapes a page title so it can't break the surrounding link:
+ * HTML entities in HTML links, characters not allowed in wikilinks, markdown brackets otherwise
+ */
+function escapeTitle(title: string, format: OutputFormat): string {
+    switch (format) {
+        case 'html':
+            return escapeHtml(title);
+        case 'wikilink':
+            return sanitizeNoteName(title);
+        case 'text':
+            return title;
+        default:
+            return title.replace(/[[\]<]/g, '\\$&');
+    }
+}
+
+/**
+ * Extracts the OpenGraph title, falling back to <title>
+ * Returns null if the page has neither
+ */
+export function extractPageTitle(html: string): string | null {
+    const metaTags = html.match(/<meta\b[^>]*>/gi) || [];
+    for (const tag of metaTags) {
+        if (/(?:property|name)\s*=\s*["']og:title["']/i.test(tag)) {
+            const content = tag.match(/content\s*=\s*(?:"([^"]*)"|'([^']*)')/i);
+            const title = content ? cleanTitle(content[1] ?? content[2]) : '';
+            if (title) return title;
+        }
+    }
+
+    const titleMatch = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+    const title = titleMatch ? cleanTitle(titleMatch[1]) : '';
+    return title || null;
+}
+
+function cleanTitle(raw: string): string {
+    return decodeHtmlEntities(raw).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Fetches page titles with a timeout, an in-memory cache and
+ * de-duplication of concurrent requests for the same URL
+ */
+export class TitleFetcher {
+    private cache = new Map<string, { title: string; expiresAt: number }>();
+    private inFlight = new Map<string, Promise<string | null>>();
+    private httpGet: HttpGet;
+    private options: TitleFetcherOptions;
+
+    constructor(httpGet: HttpGet, options: Partial<TitleFetcherOptions> = {}) {
+        this.httpGet = httpGet;
+        this.options = { ...DEFAULT_TITLE_FETCHER_OPTIONS, ...options };
+    }
+
+    /**
+     * Returns the page title, or null if it can't be fetched in time
+     */
+    fetchTitle(url: string): Promise<string | null> {
+        const cached = this.cache.get(url);
+        if (cached && cached.expiresAt > Date.now()) {
+            return Promise.resolve(cached.title);
+        }
+
+        const pending = this.inFlight.get(url);
+        if (pending) return pending;
+
+        // download() never rejects, so the entry is always cleaned up
+        const request = this.download(url);
+        this.inFlight.set(url, request);
+        request.then(() => this.inFlight.delete(url));
+        return request;
+    }
+
+    /**
+     * Resolves all ${title} placeholders in formatted output for the given URL,
+     * escaping the title for the output format
+     */
+    async resolve(text: string, url: string, format?: OutputFormat): Promise<string> {
+        if (!hasTitlePlaceholder(text)) return text;
+        const title = await this.fetchTitle(url);
+        return fillTitlePlaceholders(text, title, url, format);
+    }
+
+    private async download(url: string): Promise<string | null> {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const timeout = new Promise<null>(resolve => {
+            timer = setTimeout(() => resolve(null), this.options.timeoutMs);
+        });
+
+        try {
+            const response = await Promise.race([this.httpGet(url), timeout]);
+            if (!response || response.status < 200 || response.status >= 300) return null;
+
+            const title = extractPageTitle(response.text);
+            if (title) this.store(url, title);
+            return title;
+        } catch {
+            return null;
+        } finally {
+            if (timer !== undefined) clearTimeout(timer);
+        }
+    }
+
+    private store(url: string, title: string): void {
+        this.cache.delete(url);
+        this.cache.set(url, { title, expiresAt: Date.now() + this.options.cacheTtlMs });
+
+        // Maps iterate in insertion order, so the first key is the oldest
+        while (this.cache.size > this.options.maxCacheEntries) {
+            const oldest = this.cache.keys().next().value as string;
+            this.cache.delete(oldest);
+        }
+    }
+}
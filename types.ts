@@ -1,3 +1,5 @@
+import type { TemplateValues } from './template';
+
 /**
  * Represents a single link shortening pattern configuration
  */
@@ -21,14 +23,50 @@ export interface LinkPattern {
      */
     pathPattern: string;
 
+    /**
+     * Optional regex matched against the query string (without the leading ?)
+     * If set, URLs without a matching query string are skipped.
+     * Named groups are available as placeholders.
+     * Example: "(?:^|&)selectedIssue=(?<issue>[A-Z]+-\\d+)"
+     */
+    queryPattern?: string;
+
+    /**
+     * Optional regex matched against the fragment (without the leading #)
+     * If set, URLs without a matching fragment are skipped.
+     * Named groups are available as placeholders.
+     * Example: "L(?<start>\\d+)(?:-L(?<end>\\d+))?"
+     */
+    fragmentPattern?: string;
+
     /**
      * Output template using placeholders:
      * - ${url} - The full original URL
      * - ${1}, ${2}, etc. - Capture groups from pathPattern
+     * - ${name} - Named (?<name>...) groups from pathPattern, queryPattern and fragmentPattern
+     * - ${query}, ${query.param}, ${hash} - Query string, a single query parameter, fragment
+     * - ${cleanUrl} - The URL after the pattern's cleanup step
+     * - ${title}, ${title|fallback} - Page title, fetched after insertion
+     * Placeholders accept filters, e.g. ${1|upper}, ${1|truncate:40}, ${1|raw}
      * Example: "[${1}](${url})"
      */
     outputTemplate: string;
 
+    /** Earlier output templates (newest first), used to find links whose label can be regenerated */
+    previousTemplates?: string[];
+
+    /**
+     * How the match is inserted, overrides the global default.
+     * Formats other than 'template' use the label and target of a "[label](target)" template.
+     */
+    outputFormat?: OutputFormat;
+
+    /** Optional action that links to a vault note for the match instead of the URL */
+    noteAction?: NoteAction;
+
+    /** Optional URL cleanup, exposed as ${cleanUrl} (or replacing ${url}) */
+    cleanup?: UrlCleanupOptions;
+
     /** Optional description for user reference */
     description?: string;
 
@@ -36,19 +74,203 @@ export interface LinkPattern {
     isPreset?: boolean;
 }
 
+/**
+ * How a matched link is inserted:
+ * - template: the output template as written
+ * - markdown: [label](url)
+ * - markdownTitle: [label](url "Pattern name")
+ * - wikilink: [[label]], backed by a note with the URL in its frontmatter
+ * - text: the label only
+ * - html: <a href="url">label</a>
+ */
+export type OutputFormat = 'template' | 'markdown' | 'markdownTitle' | 'wikilink' | 'text' | 'html';
+
+/**
+ * Per-pattern "link to note" action: the match is inserted as a wikilink
+ * to a note that is created on first use
+ */
+export interface NoteAction {
+    enabled: boolean;
+
+    /** Vault path of the note, with placeholders (e.g., "Tickets/${1}.md") */
+    pathTemplate: string;
+
+    /** Optional vault path of a note whose content (with placeholders) is used for new notes */
+    templatePath?: string;
+}
+
+/**
+ * A note that a formatted link points to
+ */
+export interface LinkNote {
+    /** Vault path of the note, including the .md extension */
+    path: string;
+
+    /** Frontmatter properties set on the note (existing values are kept) */
+    frontmatter: Record<string, string | string[]>;
+
+    /** Note template used if the note has to be created */
+    templatePath?: string;
+
+    /** Placeholder values for rendering the note template */
+    values?: TemplateValues;
+}
+
+/**
+ * Settings that affect how patterns are rendered, passed along with the pattern list
+ */
+export interface MatchOptions {
+    /** Output format for patterns that don't set their own */
+    defaultFormat?: OutputFormat;
+
+    /** Text selected where the URL is pasted, the ${selection} placeholder */
+    selection?: string;
+
+    /** Use the selected text as the label of templates without ${selection} */
+    selectionAsLabel?: boolean;
+
+    /** Text of the link as copied (from rich text), the ${label} placeholder */
+    label?: string;
+
+    /** Tables available to the map filter */
+    lookupTables?: LookupTable[];
+}
+
+/**
+ * A named table mapping captured values to friendly names, used by the map filter
+ */
+export interface LookupTable {
+    name: string;
+
+    /** Friendly name by captured value */
+    entries: Record<string, string>;
+}
+
+/**
+ * Which clipboard content is used first when pasting: the plain text or a link copied as rich text
+ */
+export type ClipboardPreference = 'html' | 'plain';
+
+/**
+ * Canonicalization applied to a matched URL before insertion
+ */
+export interface UrlCleanupOptions {
+    /** Which query parameters to keep: all, only those listed, or all except those listed */
+    queryFilter: 'none' | 'allowlist' | 'denylist';
+
+    /** Parameter names for the allowlist/denylist, * is a wildcard (e.g., "utm_*") */
+    queryParams: string[];
+
+    /** Remove the #fragment */
+    dropFragment: boolean;
+
+    /** Rewrite http:// to https:// */
+    forceHttps: boolean;
+
+    /** Host replacements, e.g. vanity domain to canonical domain */
+    hostRewrites: HostRewrite[];
+
+    /** If true, ${url} is the cleaned URL too */
+    replaceUrl: boolean;
+}
+
+/**
+ * Replaces one host with another when cleaning up a URL
+ */
+export interface HostRewrite {
+    from: string;
+    to: string;
+}
+
+/**
+ * How imported patterns that share an id or name with an existing pattern are handled
+ */
+export type ImportConflictStrategy = 'skip' | 'replace' | 'duplicate';
+
+/**
+ * How often a pattern has matched
+ */
+export interface PatternStats {
+    count: number;
+
+    /** Timestamp (ms) of the last match */
+    lastUsed: number;
+}
+
+/**
+ * A past shortening, for re-inserting the link later
+ */
+export interface HistoryEntry {
+    /** The original URL */
+    url: string;
+
+    /** Text that was inserted */
+    output: string;
+
+    patternId: string;
+
+    /** Note the link was inserted into */
+    notePath: string;
+
+    /** Timestamp (ms) */
+    timestamp: number;
+}
+
 /**
  * Plugin settings structure (v2)
  */
 export interface LinkShortenerPluginSettings {
-    /** Settings schema version for migration support */
+    /** Settings schema version, keep in sync with CURRENT_SETTINGS_VERSION in migrations.ts */
     version: 2;
 
     /** Ordered list of patterns - first match wins */
     patterns: LinkPattern[];
+
+    /**
+     * If true, pasted text that is not a single URL (e.g. a chat message or a list)
+     * has each matching URL shortened in place
+     */
+    shortenUrlsInText: boolean;
+
+    /**
+     * If true, bare URLs matching a pattern are displayed as their label in live preview
+     * and reading view, without changing the note
+     */
+    displayShortenedUrls: boolean;
+
+    /**
+     * If true, pasting a matching URL onto selected text (on a single line) keeps
+     * the selection as the link label
+     */
+    selectionAsLabel: boolean;
+
+    /** Whether a link copied as rich text (text/html) wins over the plain text of the clipboard */
+    clipboardPreference: ClipboardPreference;
+
+    /** Output format for patterns that don't override it */
+    defaultOutputFormat: OutputFormat;
+
+    /** Vault path of the JSON file used for pattern export, import and sync */
+    patternFilePath: string;
+
+    /** If true, patterns are merged from patternFilePath whenever the file changes */
+    syncPatternFile: boolean;
+
+    /** How imports handle patterns with the same id or name as an existing one */
+    importConflictStrategy: ImportConflictStrategy;
+
+    /** Named tables for the map filter, e.g. ${1|map:projects} */
+    lookupTables: LookupTable[];
+
+    /** Match statistics by pattern id */
+    stats: Record<string, PatternStats>;
+
+    /** Recent shortenings, newest first (bounded, see stats.ts) */
+    history: HistoryEntry[];
 }
 
 /**
- * Legacy settings structure (v1) - for migration
+ * Legacy settings structure (v1) - migrated by migrations.ts
  */
 export interface LegacyPluginSettings {
     supportedDomain: string;
@@ -0,0 +1,55 @@
+import { UrlCleanupOptions } from './types';
+import { cleanUrl, createDefaultCleanup } from './url-cleanup';
+
+function options(overrides: Partial<UrlCleanupOptions>): UrlCleanupOptions {
+    return { ...createDefaultCleanup(), ...overrides };
+}
+
+describe('cleanUrl', () => {
+    it('should leave the URL untouched by default', () => {
+        const url = 'http://a.atlassian.net/browse/DEV-1?utm_source=x&foo=bar#c';
+        expect(cleanUrl(url, createDefaultCleanup())).toBe(url);
+    });
+
+    it('should remove denylisted parameters with wildcards', () => {
+        expect(cleanUrl(
+            'https://a.atlassian.net/browse/DEV-1?utm_source=slack&focusedCommentId=5&atlOrigin=abc&foo=bar',
+            options({ queryFilter: 'denylist', queryParams: ['utm_*', 'atlOrigin', 'focusedCommentId'] })
+        )).toBe('https://a.atlassian.net/browse/DEV-1?foo=bar');
+    });
+
+    it('should keep only allowlisted parameters', () => {
+        expect(cleanUrl(
+            'https://wiki.example.com/viewpage.action?pageId=1&from=slack',
+            options({ queryFilter: 'allowlist', queryParams: ['pageId'] })
+        )).toBe('https://wiki.example.com/viewpage.action?pageId=1');
+    });
+
+    it('should drop the question mark when no parameters remain', () => {
+        expect(cleanUrl(
+            'https://github.com/o/r/pull/1?from=slack#top',
+            options({ queryFilter: 'denylist', queryParams: ['from'] })
+        )).toBe('https://github.com/o/r/pull/1#top');
+    });
+
+    it('should drop the fragment', () => {
+        expect(cleanUrl('https://github.com/o/r/pull/1?a=1#discussion', options({ dropFragment: true })))
+            .toBe('https://github.com/o/r/pull/1?a=1');
+    });
+
+    it('should force https', () => {
+        expect(cleanUrl('http://jira.example.com/browse/DEV-1', options({ forceHttps: true })))
+            .toBe('https://jira.example.com/browse/DEV-1');
+    });
+
+    it('should rewrite hosts case-insensitively', () => {
+        expect(cleanUrl(
+            'https://Go.Company.com/browse/DEV-1',
+            options({ hostRewrites: [{ from: 'go.company.com', to: 'company.atlassian.net' }] })
+        )).toBe('https://company.atlassian.net/browse/DEV-1');
+    });
+
+    it('should return non-http URLs unchanged', () => {
+        expect(cleanUrl('ftp://example.com/a', options({ forceHttps: true }))).toBe('ftp://example.com/a');
+    });
+});
@@ -0,0 +1,71 @@
+import { UrlCleanupOptions } from './types';
+
+/**
+ * Default cleanup settings for a pattern (nothing is changed)
+ */
+export function createDefaultCleanup(): UrlCleanupOptions {
+    return {
+        queryFilter: 'none',
+        queryParams: [],
+        dropFragment: false,
+        forceHttps: false,
+        hostRewrites: [],
+        replaceUrl: false,
+    };
+}
+
+/**
+ * Checks a query parameter name against a list with * wildcards
+ */
+function matchesParamList(name: string, list: string[]): boolean {
+    return list.some(entry => {
+        const regex = new RegExp(
+            '^' + entry.trim().replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*') + '$',
+            'i'
+        );
+        return regex.test(name);
+    });
+}
+
+/**
+ * Canonicalizes a URL: filters query parameters, drops the fragment,
+ * forces https and rewrites hosts. Parts that aren't touched keep their exact spelling.
+ */
+export function cleanUrl(url: string, options: UrlCleanupOptions): string {
+    const parts = url.match(/^(https?):\/\/([^/?#]*)([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/i);
+    if (!parts) return url;
+
+    let [, protocol, host] = parts;
+    const path = parts[3];
+    let query: string | undefined = parts[4];
+    let hash: string | undefined = parts[5];
+
+    if (options.forceHttps) {
+        protocol = 'https';
+    }
+
+    const rewrite = options.hostRewrites.find(r => r.from.trim().toLowerCase() === host.toLowerCase());
+    if (rewrite) {
+        host = rewrite.to.trim();
+    }
+
+    if (query !== undefined && options.queryFilter !== 'none') {
+        const keepAllowed = options.queryFilter === 'allowlist';
+        query = query
+            .split('&')
+            .filter(param => {
+                if (!param) return false;
+                const name = param.split('=')[0];
+                return matchesParamList(name, options.queryParams) === keepAllowed;
+            })
+            .join('&');
+    }
+
+    if (options.dropFragment) {
+        hash = undefined;
+    }
+
+    return `${protocol}://${host}${path}`
+        + (query ? `?${query}` : '')
+        + (hash !== undefined ? `#${hash}` : '');
+}
@@ -0,0 +1,152 @@
+import { RangeSetBuilder } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, WidgetType } from '@codemirror/view';
+import { MarkdownPostProcessor, editorLivePreviewField } from 'obsidian';
+import { MatchOptions } from './types';
+import { UrlOccurrence, findBareUrls } from './link-scanner';
+import { PatternMatcher } from './pattern-matcher';
+import { fillTitlePlaceholders } from './title-fetcher';
+
+/**
+ * Label shown for a bare URL, or null if no pattern matches.
+ * Page titles are never fetched for display, their fallback (or the URL) is shown instead.
+ */
+function getDisplayLabel(url: string, matcher: PatternMatcher, options: MatchOptions): string | null {
+    const label = matcher.findLabel(url, options);
+    return label !== null ? fillTitlePlaceholders(label, null, url) : null;
+}
+
+/**
+ * Shows the label of a matching URL in place of the URL, and opens the URL on click
+ */
+class LinkLabelWidget extends WidgetType {
+    constructor(readonly label: string, readonly url: string) {
+        super();
+    }
+
+    eq(other: LinkLabelWidget): boolean {
+        return other.label === this.label && other.url === this.url;
+    }
+
+    toDOM(): HTMLElement {
+        const el = document.createElement('a');
+        el.className = 'external-link pattern-link-label';
+        el.textContent = this.label;
+        el.href = this.url;
+        el.title = this.url;
+        // Opened on mousedown: the editor would otherwise move the cursor onto the URL,
+        // which removes this widget before the click arrives
+        el.addEventListener('mousedown', evt => {
+            if (evt.button !== 0) return;
+            evt.preventDefault();
+            window.open(this.url);
+        });
+        el.addEventListener('click', evt => evt.preventDefault());
+        return el;
+    }
+
+    ignoreEvent(event: Event): boolean {
+        return event instanceof MouseEvent;
+    }
+}
+
+/**
+ * Live preview extension that displays bare URLs matching a pattern as their
+ * formatted label. The document is not changed; the URL is shown again
+ * while the cursor or selection touches it.
+ * Labels are cached per URL, reconfigure the extension after patterns change.
+ */
+export function createUrlDecorations(getMatcher: () => PatternMatcher, getOptions: () => MatchOptions) {
+    return ViewPlugin.fromClass(class {
+        decorations: DecorationSet;
+
+        // Bare URLs in the visible part of the document, recomputed when it changes, and labels by URL
+        occurrences: UrlOccurrence[];
+        labels = new Map<string, string | null>();
+
+        constructor(view: EditorView) {
+            this.occurrences = this.findVisibleUrls(view);
+            this.decorations = this.build(view);
+        }
+
+        update(update: ViewUpdate) {
+            if (update.docChanged || update.viewportChanged) {
+                this.occurrences = this.findVisibleUrls(update.view);
+            }
+            if (update.docChanged || update.viewportChanged || update.selectionSet
+                || update.startState.field(editorLivePreviewField) !== update.state.field(editorLivePreviewField)) {
+                this.decorations = this.build(update.view);
+            }
+        }
+
+        /**
+         * Scans the visible lines only; the text above them is passed along for code blocks
+         */
+        findVisibleUrls(view: EditorView): UrlOccurrence[] {
+            const { doc } = view.state;
+            const occurrences: UrlOccurrence[] = [];
+            for (const range of view.visibleRanges) {
+                const text = doc.sliceString(0, doc.lineAt(range.to).to);
+                // Ranges separated by a fold can share a line
+                const last = occurrences[occurrences.length - 1];
+                occurrences.push(...findBareUrls(text, range.from).filter(occurrence => !last || occurrence.from >= last.to));
+            }
+            return occurrences;
+        }
+
+        getLabel(url: string): string | null {
+            let label = this.labels.get(url);
+            if (label === undefined) {
+                label = getDisplayLabel(url, getMatcher(), getOptions());
+                this.labels.set(url, label);
+            }
+            return label;
+        }
+
+        build(view: EditorView): DecorationSet {
+            const builder = new RangeSetBuilder<Decoration>();
+            if (!view.state.field(editorLivePreviewField)) return builder.finish();
+
+            const selection = view.state.selection.ranges;
+
+            for (const { url, from, to } of this.occurrences) {
+                if (selection.some(range => range.from <= to && range.to >= from)) continue;
+
+                const label = this.getLabel(url);
+                if (label !== null) {
+                    builder.add(from, to, Decoration.replace({ widget: new LinkLabelWidget(label, url) }));
+                }
+            }
+
+            return builder.finish();
+        }
+    }, {
+        decorations: plugin => plugin.decorations,
+    });
+}
+
+/**
+ * Reading view post-processor that relabels auto-linked bare URLs matching a pattern
+ */
+export function createUrlPostProcessor(
+    getMatcher: () => PatternMatcher,
+    getOptions: () => MatchOptions,
+    isEnabled: () => boolean
+): MarkdownPostProcessor {
+    return (el: HTMLElement) => {
+        if (!isEnabled()) return;
+
+        const matcher = getMatcher();
+        const options = getOptions();
+        el.querySelectorAll('a.external-link').forEach(link => {
+            const url = link.getAttribute('href');
+            if (!url || link.textContent !== url) return;
+
+            const label = getDisplayLabel(url, matcher, options);
+            if (label !== null) {
+                link.textContent = label;
+                link.setAttribute('title', url);
+                link.classList.add('pattern-link-label');
+            }
+        });
+    };
+}
@@ -1,5 +1,6 @@
 import { LinkPattern } from './types';
-import { formatLink, matchPattern, sanitizeDomain, validateRegexPattern, validateOutputTemplate, decodeUrlString } from './utils';
+import { createPatternFromPreset } from './presets';
+import { MAX_URL_LENGTH, distributePastedText, findMatchingPattern, formatLink, matchPattern, matchPatternLabel, sanitizeDomain, validateRegexPattern, validateOutputTemplate, validateNoteNameTemplates, decodeUrlString, decodeHtmlEntities, getCaptureGroups, splitUrl, parseQueryString } from './utils';
 
 // Helper to create a JIRA-style pattern for testing
 function createJiraPattern(domain: string): LinkPattern {
@@ -39,6 +40,11 @@ describe('formatLink sanity checks', () => {
     it('should return null if patterns array is empty', () => {
         expect(formatLink('https://examplecompany.atlassian.net/browse/DEV-456', [])).toBeNull();
     });
+
+    it('should return null if the URL is longer than the length cap', () => {
+        const url = 'https://examplecompany.atlassian.net/browse/DEV-456?q=' + 'a'.repeat(MAX_URL_LENGTH);
+        expect(formatLink(url, patterns)).toBeNull();
+    });
 });
 
 describe('formatLink with JIRA-style patterns', () => {
@@ -83,6 +89,26 @@ describe('formatLink with JIRA-style patterns', () => {
         expect(formatLink('https://examplecompany.atlassian.net/browse/DEV-456', patterns)).toBeNull();
     });
 
+    it('should not match a wildcard domain in the query string', () => {
+        const patterns = [createJiraPattern('*.atlassian.net')];
+        expect(formatLink('https://evil.com/?x=.atlassian.net/browse/DEV-456', patterns)).toBeNull();
+        expect(formatLink('https://evil.com/a.atlassian.net/browse/DEV-456', patterns)).toBeNull();
+    });
+
+    it('should match the host, not the userinfo', () => {
+        const patterns = [createJiraPattern('examplecompany.atlassian.net')];
+        expect(formatLink('https://examplecompany.atlassian.net@evil.com/browse/DEV-456', patterns)).toBeNull();
+        expect(formatLink('https://user@examplecompany.atlassian.net/browse/DEV-456', patterns))
+            .toBe('[DEV-456](https://user@examplecompany.atlassian.net/browse/DEV-456)');
+    });
+
+    it('should match the path pattern after a path prefix', () => {
+        const pattern = { ...createJiraPattern('company.com/jira'), pathPattern: '\\/browse\\/([A-Z]+-\\d+)' };
+        expect(formatLink('https://company.com/jira/browse/DEV-1', [pattern])).toBe('[DEV-1](https://company.com/jira/browse/DEV-1)');
+        expect(formatLink('https://company.com/browse/DEV-1', [pattern])).toBeNull();
+        expect(formatLink('https://company.com/jira-old/browse/DEV-1', [pattern])).toBeNull();
+    });
+
     it('should not match if no exact match for domain', () => {
         const patterns = [createJiraPattern('company.selfhosted.com')];
         expect(formatLink('https://examplecompany.atlassian.net/browse/DEV-456', patterns)).toBeNull();
@@ -184,6 +210,37 @@ describe('matchPattern with multiple capture groups', () => {
             .toBe('[Page 123 on sub.example.com](https://sub.example.com/page/123)');
     });
 
+    it('should include a non-default port and the path prefix in ${domain}', () => {
+        const pattern: LinkPattern = {
+            id: 'test',
+            name: 'Test',
+            enabled: true,
+            domainPattern: 'localhost:8080/app, example.com',
+            pathPattern: '\\/page\\/(\\d+)',
+            outputTemplate: '[${1} on ${domain}](${url})',
+        };
+
+        expect(matchPattern('http://localhost:8080/app/page/1', pattern)).toBe('[1 on localhost:8080/app](http://localhost:8080/app/page/1)');
+        expect(matchPattern('https://example.com:443/page/2', pattern)).toBe('[2 on example.com](https://example.com:443/page/2)');
+        expect(matchPattern('http://localhost:3000/app/page/1', pattern)).toBeNull();
+    });
+
+    it('should render conditional sections from captures', () => {
+        const pattern = createPatternFromPreset('gitlabSelfHosted', { enabled: true });
+        expect(matchPattern('https://gitlab.example.com/group/project/-/merge_requests/7', pattern))
+            .toBe('[group/project!7](https://gitlab.example.com/group/project/-/merge_requests/7)');
+        expect(matchPattern('https://gitlab.example.com/group/project/-/issues/8', pattern))
+            .toBe('[group/project#8](https://gitlab.example.com/group/project/-/issues/8)');
+    });
+
+    it('should tell pull requests from issues with the GitHub preset', () => {
+        const pattern = createPatternFromPreset('github', { enabled: true });
+        expect(matchPattern('https://github.com/owner/repo/pull/12', pattern))
+            .toBe('[owner/repo PR #12](https://github.com/owner/repo/pull/12)');
+        expect(matchPattern('https://github.com/owner/repo/issues/13', pattern))
+            .toBe('[owner/repo Issue #13](https://github.com/owner/repo/issues/13)');
+    });
+
     it('should handle missing capture groups gracefully', () => {
         const pattern: LinkPattern = {
             id: 'test',
@@ -199,13 +256,384 @@ describe('matchPattern with multiple capture groups', () => {
     });
 });
 
+describe('matchPattern with named and many capture groups', () => {
+    it('should support named groups as placeholders', () => {
+        const pattern: LinkPattern = {
+            id: 'github',
+            name: 'GitHub',
+            enabled: true,
+            domainPattern: 'github.com',
+            pathPattern: '\\/(?<repo>[^\\/]+\\/[^\\/]+)\\/(?:issues|pull)\\/(?<number>\\d+)',
+            outputTemplate: '[${repo}#${number}](${url})',
+        };
+
+        expect(matchPattern('https://github.com/owner/repo/pull/42', pattern))
+            .toBe('[owner/repo#42](https://github.com/owner/repo/pull/42)');
+    });
+
+    it('should number named groups along with unnamed ones', () => {
+        const pattern: LinkPattern = {
+            id: 'test',
+            name: 'Test',
+            enabled: true,
+            domainPattern: 'example.com',
+            pathPattern: '\\/(?<section>[a-z]+)\\/(\\d+)',
+            outputTemplate: '${1}-${2}-${section}',
+        };
+
+        expect(matchPattern('https://example.com/docs/7', pattern)).toBe('docs-7-docs');
+    });
+
+    it('should support more than nine capture groups', () => {
+        const pattern: LinkPattern = {
+            id: 'test',
+            name: 'Test',
+            enabled: true,
+            domainPattern: 'example.com',
+            pathPattern: '\\/' + Array.from({ length: 11 }, () => '(\\w)').join(''),
+            outputTemplate: '${1}${10}${11}',
+        };
+
+        expect(matchPattern('https://example.com/abcdefghijk', pattern)).toBe('ajk');
+    });
+
+    it('should not let named groups override built-in placeholders', () => {
+        const pattern: LinkPattern = {
+            id: 'test',
+            name: 'Test',
+            enabled: true,
+            domainPattern: 'example.com',
+            pathPattern: '\\/(?<url>\\d+)',
+            outputTemplate: '${url}',
+        };
+
+        expect(matchPattern('https://example.com/5', pattern)).toBe('https://example.com/5');
+    });
+});
+
+describe('matchPattern with query string and fragment', () => {
+    const board: LinkPattern = {
+        id: 'board',
+        name: 'Board',
+        enabled: true,
+        domainPattern: '*.atlassian.net',
+        pathPattern: '\\/jira\\/software\\/projects\\/[A-Z]+\\/boards\\/\\d+',
+        queryPattern: '(?:^|&)selectedIssue=(?<issue>[A-Z]+-\\d+)',
+        outputTemplate: '[${issue}](${url})',
+    };
+
+    it('should capture named groups from the query pattern', () => {
+        expect(matchPattern('https://a.atlassian.net/jira/software/projects/DEV/boards/1?selectedIssue=DEV-1', board))
+            .toBe('[DEV-1](https://a.atlassian.net/jira/software/projects/DEV/boards/1?selectedIssue=DEV-1)');
+    });
+
+    it('should not match when the query pattern fails or the query is missing', () => {
+        expect(matchPattern('https://a.atlassian.net/jira/software/projects/DEV/boards/1?other=1', board)).toBeNull();
+        expect(matchPattern('https://a.atlassian.net/jira/software/projects/DEV/boards/1', board)).toBeNull();
+    });
+
+    it('should expose query parameters as ${query.name}', () => {
+        const pattern: LinkPattern = {
+            id: 'confluence',
+            name: 'Confluence',
+            enabled: true,
+            domainPattern: 'wiki.example.com',
+            pathPattern: '\\/pages\\/viewpage\\.action',
+            outputTemplate: '[Page ${query.pageId}${query.missing}](${url})',
+        };
+
+        expect(matchPattern('https://wiki.example.com/pages/viewpage.action?pageId=123', pattern))
+            .toBe('[Page 123](https://wiki.example.com/pages/viewpage.action?pageId=123)');
+    });
+
+    it('should capture fragments', () => {
+        const pattern: LinkPattern = {
+            id: 'github-lines',
+            name: 'GitHub lines',
+            enabled: true,
+            domainPattern: 'github.com',
+            pathPattern: '\\/[^\\/]+\\/[^\\/]+\\/blob\\/[^\\/]+\\/(.+)$',
+            fragmentPattern: '^L(?<start>\\d+)(?:-L(?<end>\\d+))?$',
+            outputTemplate: '[${1}:${start}-${end}](${url})',
+        };
+
+        expect(matchPattern('https://github.com/o/r/blob/main/src/app.ts#L10-L20', pattern))
+            .toBe('[src/app.ts:10-20](https://github.com/o/r/blob/main/src/app.ts#L10-L20)');
+        expect(matchPattern('https://github.com/o/r/blob/main/src/app.ts', pattern)).toBeNull();
+    });
+
+    it('should not let fragments break path patterns', () => {
+        const pattern = createJiraPattern('*.atlassian.net');
+        expect(matchPattern('https://a.atlassian.net/browse/DEV-1#comment-5', pattern))
+            .toBe('[DEV-1](https://a.atlassian.net/browse/DEV-1#comment-5)');
+    });
+
+    it('should keep path patterns that match the fragment of hash-routed apps working', () => {
+        const pattern: LinkPattern = {
+            id: 'spa',
+            name: 'SPA',
+            enabled: true,
+            domainPattern: 'app.example.com',
+            pathPattern: '\\/#\\/tickets\\/(\\d+)',
+            outputTemplate: '[Ticket ${1}](${url})',
+        };
+
+        expect(matchPattern('https://app.example.com/#/tickets/42', pattern))
+            .toBe('[Ticket 42](https://app.example.com/#/tickets/42)');
+        expect(matchPattern('https://app.example.com/#/users/42', pattern)).toBeNull();
+    });
+
+    it('should expose the fragment as ${hash}', () => {
+        const pattern = { ...createJiraPattern('*.atlassian.net'), outputTemplate: '[${1} ${hash}](${url})' };
+        expect(matchPattern('https://a.atlassian.net/browse/DEV-1?x=1#comment-5', pattern))
+            .toBe('[DEV-1 comment-5](https://a.atlassian.net/browse/DEV-1?x=1#comment-5)');
+    });
+
+    it('should keep path patterns that consume the query string working', () => {
+        const pattern: LinkPattern = {
+            id: 'legacy',
+            name: 'Legacy',
+            enabled: true,
+            domainPattern: 'wiki.example.com',
+            pathPattern: '\\/viewpage\\.action\\?pageId=(\\d+)',
+            outputTemplate: '[${1}](${url})',
+        };
+
+        expect(matchPattern('https://wiki.example.com/viewpage.action?pageId=42', pattern))
+            .toBe('[42](https://wiki.example.com/viewpage.action?pageId=42)');
+    });
+});
+
+describe('matchPattern with URL cleanup', () => {
+    const cleanup = {
+        queryFilter: 'denylist' as const,
+        queryParams: ['utm_*', 'atlOrigin'],
+        dropFragment: true,
+        forceHttps: true,
+        hostRewrites: [],
+        replaceUrl: false,
+    };
+
+    it('should expose the cleaned URL as ${cleanUrl}', () => {
+        const pattern = { ...createJiraPattern('*.atlassian.net'), cleanup, outputTemplate: '[${1}](${cleanUrl})' };
+        expect(matchPattern('http://a.atlassian.net/browse/DEV-1?atlOrigin=x&utm_medium=y#c', pattern))
+            .toBe('[DEV-1](https://a.atlassian.net/browse/DEV-1)');
+    });
+
+    it('should keep ${url} unless replaceUrl is set', () => {
+        const url = 'https://a.atlassian.net/browse/DEV-1?atlOrigin=x';
+        expect(matchPattern(url, { ...createJiraPattern('*.atlassian.net'), cleanup }))
+            .toBe(`[DEV-1](${url})`);
+        expect(matchPattern(url, { ...createJiraPattern('*.atlassian.net'), cleanup: { ...cleanup, replaceUrl: true } }))
+            .toBe('[DEV-1](https://a.atlassian.net/browse/DEV-1)');
+    });
+});
+
+describe('matchPattern with output formats', () => {
+    const url = 'https://jira.example.com/browse/DEV-123';
+
+    it('should use the template as written by default', () => {
+        expect(matchPattern(url, createJiraPattern('jira.example.com'))).toBe(`[DEV-123](${url})`);
+    });
+
+    it('should apply the default format from the options', () => {
+        expect(matchPattern(url, createJiraPattern('jira.example.com'), { defaultFormat: 'text' })).toBe('DEV-123');
+    });
+
+    it('should prefer the pattern format over the default', () => {
+        const pattern = { ...createJiraPattern('jira.example.com'), outputFormat: 'html' as const };
+        expect(matchPattern(url, pattern, { defaultFormat: 'text' })).toBe(`<a href="${url}">DEV-123</a>`);
+    });
+
+    it('should use the template target and the pattern name as title', () => {
+        const pattern = {
+            ...createJiraPattern('jira.example.com'),
+            name: 'JIRA',
+            outputFormat: 'markdownTitle' as const,
+            outputTemplate: '[${1|lower}](${domain})',
+        };
+        expect(matchPattern(url, pattern)).toBe('[dev-123](jira.example.com "JIRA")');
+    });
+
+    it('should use a whole non-link template as the label', () => {
+        const pattern = { ...createJiraPattern('jira.example.com'), outputFormat: 'markdown' as const, outputTemplate: 'Issue ${1}' };
+        expect(matchPattern(url, pattern)).toBe(`[Issue DEV-123](${url})`);
+    });
+
+    it('should return the note for wikilinks', () => {
+        const pattern = { ...createJiraPattern('jira.example.com'), outputFormat: 'wikilink' as const };
+        expect(findMatchingPattern(url, [pattern])).toEqual({
+            pattern,
+            format: 'wikilink',
+            output: '[[DEV-123]]',
+            note: { path: 'DEV-123.md', frontmatter: { url } },
+        });
+    });
+});
+
+describe('matchPattern with a note action', () => {
+    const url = 'https://jira.example.com/browse/DEV-123';
+    const pattern: LinkPattern = {
+        ...createJiraPattern('jira.example.com'),
+        pathPattern: '\\/browse\\/(?<key>[A-Z]+-\\d+)',
+        noteAction: { enabled: true, pathTemplate: 'Tickets/${key}.md', templatePath: 'Templates/Ticket.md' },
+    };
+
+    it('should link to the note and describe it', () => {
+        const match = findMatchingPattern(url, [pattern]);
+        expect(match?.output).toBe('[[Tickets/DEV-123|DEV-123]]');
+        expect(match?.note).toMatchObject({
+            path: 'Tickets/DEV-123.md',
+            frontmatter: { url, domain: 'jira.example.com', captures: ['DEV-123'], key: 'DEV-123' },
+            templatePath: 'Templates/Ticket.md',
+        });
+        expect(match?.note?.values?.key.value).toBe('DEV-123');
+    });
+
+    it('should ignore a disabled note action', () => {
+        expect(matchPattern(url, { ...pattern, noteAction: { enabled: false, pathTemplate: 'Tickets/${key}.md' } }))
+            .toBe(`[DEV-123](${url})`);
+    });
+});
+
+describe('matchPattern with a selection or copied label', () => {
+    const url = 'https://jira.example.com/browse/DEV-123';
+
+    it('should fill ${selection} with the selected text', () => {
+        const pattern = { ...createJiraPattern('jira.example.com'), outputTemplate: '[${1}: ${selection}](${url})' };
+        expect(matchPattern(url, pattern, { selection: 'fix login bug' })).toBe(`[DEV-123: fix login bug](${url})`);
+        expect(matchPattern(url, pattern)).toBe(`[DEV-123: ](${url})`);
+    });
+
+    it('should support a default for pastes without a selection', () => {
+        const pattern = { ...createJiraPattern('jira.example.com'), outputTemplate: '[${1}: ${selection|default:no summary}](${url})' };
+        expect(matchPattern(url, pattern)).toBe(`[DEV-123: no summary](${url})`);
+    });
+
+    it('should use the selection as label only in selection-as-label mode', () => {
+        const pattern = createJiraPattern('jira.example.com');
+        expect(matchPattern(url, pattern, { selection: 'fix login bug', selectionAsLabel: true })).toBe(`[fix login bug](${url})`);
+        expect(matchPattern(url, pattern, { selection: 'fix login bug' })).toBe(`[DEV-123](${url})`);
+        expect(matchPattern(url, pattern, { selection: '', selectionAsLabel: true })).toBe(`[DEV-123](${url})`);
+    });
+
+    it('should keep the output format and target in selection-as-label mode', () => {
+        const pattern = { ...createJiraPattern('jira.example.com'), outputFormat: 'html' as const };
+        expect(matchPattern(url, pattern, { selection: 'fix', selectionAsLabel: true }))
+            .toBe(`<a href="${url}">fix</a>`);
+    });
+
+    it('should ignore selections spanning several lines', () => {
+        const pattern = createJiraPattern('jira.example.com');
+        expect(matchPattern(url, pattern, { selection: 'one\ntwo', selectionAsLabel: true })).toBe(`[DEV-123](${url})`);
+    });
+
+    it('should fill ${label} with the text of a link copied as rich text', () => {
+        const pattern = { ...createJiraPattern('jira.example.com'), outputTemplate: '[${1}: ${label|default:no title}](${url})' };
+        expect(matchPattern(url, pattern, { label: 'Fix login bug' })).toBe(`[DEV-123: Fix login bug](${url})`);
+        expect(matchPattern(url, pattern)).toBe(`[DEV-123: no title](${url})`);
+    });
+
+    it('should use the selection as the alias of note links', () => {
+        const pattern = { ...createJiraPattern('jira.example.com'), noteAction: { enabled: true, pathTemplate: 'Tickets/${1}' } };
+        expect(matchPattern(url, pattern, { selection: 'fix', selectionAsLabel: true })).toBe('[[Tickets/DEV-123|fix]]');
+    });
+});
+
+describe('matchPattern with lookup tables', () => {
+    const url = 'https://jira.example.com/browse/DEVOPS-12';
+    const lookupTables = [{ name: 'projects', entries: { DEVOPS: 'Platform' } }];
+
+    it('should map captured values in the output and note path', () => {
+        const pattern = {
+            ...createJiraPattern('jira.example.com'),
+            pathPattern: '\\/browse\\/(([A-Z]+)-\\d+)',
+            outputTemplate: '[${2|map:projects:Other} ${1}](${url})',
+        };
+        expect(matchPattern(url, pattern, { lookupTables })).toBe(`[Platform DEVOPS-12](${url})`);
+        expect(matchPattern(url, pattern)).toBe(`[Other DEVOPS-12](${url})`);
+
+        const notePattern = { ...pattern, noteAction: { enabled: true, pathTemplate: '${2|map:projects}/${1}' } };
+        expect(matchPattern(url, notePattern, { lookupTables })).toBe('[[Platform/DEVOPS-12|Platform DEVOPS-12]]');
+    });
+});
+
+describe('matchPatternLabel', () => {
+    const url = 'https://jira.example.com/browse/DEV-123';
+
+    it('should render the label part of the template', () => {
+        expect(matchPatternLabel(url, createJiraPattern('jira.example.com'))).toBe('DEV-123');
+        expect(matchPatternLabel(url, createJiraPattern('jira.example.com'), '[Old ${1}](${url})')).toBe('Old DEV-123');
+    });
+
+    it('should ignore output formats and note actions', () => {
+        const pattern: LinkPattern = {
+            ...createJiraPattern('jira.example.com'),
+            outputFormat: 'html',
+            noteAction: { enabled: true, pathTemplate: 'Tickets/${1}.md' },
+        };
+        expect(matchPatternLabel(url, pattern)).toBe('DEV-123');
+    });
+});
+
+describe('distributePastedText', () => {
+    it('should give each cursor its own line when the counts match', () => {
+        expect(distributePastedText('a\nb\r\nc', 3)).toEqual(['a', 'b', 'c']);
+        expect(distributePastedText('a\nb\n', 2)).toEqual(['a', 'b']);
+    });
+
+    it('should give every cursor the whole text otherwise', () => {
+        expect(distributePastedText('a\nb', 3)).toEqual(['a\nb', 'a\nb', 'a\nb']);
+        expect(distributePastedText('a\n', 1)).toEqual(['a\n']);
+        expect(distributePastedText('a', 2)).toEqual(['a', 'a']);
+    });
+});
+
+describe('splitUrl', () => {
+    it('should split query and fragment', () => {
+        expect(splitUrl('https://x.com/a?b=1#c?d')).toEqual({ query: 'b=1', hash: 'c?d' });
+        expect(splitUrl('https://x.com/a#c')).toEqual({ query: null, hash: 'c' });
+        expect(splitUrl('https://x.com/a')).toEqual({ query: null, hash: null });
+    });
+});
+
+describe('parseQueryString', () => {
+    it('should parse keys and keep raw values', () => {
+        expect(parseQueryString('a=1&b=Hello+World&c&a=2')).toEqual({ a: '1', b: 'Hello+World', c: '' });
+    });
+});
+
+describe('getCaptureGroups', () => {
+    it('should count numbered groups', () => {
+        expect(getCaptureGroups('\\/([^\\/]+)\\/(issues|pull)\\/(\\d+)')).toEqual({ count: 3, names: [] });
+    });
+
+    it('should list named groups', () => {
+        expect(getCaptureGroups('\\/(?<key>[A-Z]+-\\d+)(?:\\/(?<tab>\\w+))?')).toEqual({ count: 2, names: ['key', 'tab'] });
+    });
+
+    it('should ignore escaped parentheses', () => {
+        expect(getCaptureGroups('\\(?<notagroup>x')).toEqual({ count: 0, names: [] });
+    });
+
+    it('should return null for invalid regex', () => {
+        expect(getCaptureGroups('(')).toBeNull();
+    });
+});
+
 describe('sanitizeDomain', () => {
     it('should not fail with empty string', () => {
         expect(sanitizeDomain('')).toBe('');
     });
 
     it('should remove illegal characters', () => {
-        expect(sanitizeDomain('!@#$%^&()domain.com')).toBe('domain.com');
+        expect(sanitizeDomain('@#$%^&()domain.com')).toBe('domain.com');
+    });
+
+    it('should keep ports, IPv6 brackets, lists, exclusions and internationalized hosts', () => {
+        expect(sanitizeDomain('localhost:8080, [::1]:3000')).toBe('localhost:8080, [::1]:3000');
+        expect(sanitizeDomain('*.atlassian.net, !status.atlassian.net')).toBe('*.atlassian.net, !status.atlassian.net');
+        expect(sanitizeDomain('bücher.de')).toBe('bücher.de');
     });
 
     it('should keep dots and asterisks for wildcard definition', () => {
@@ -233,6 +661,12 @@ describe('validateRegexPattern', () => {
         expect(validateRegexPattern('[')).not.toBeNull();
         expect(validateRegexPattern('(unclosed')).not.toBeNull();
     });
+
+    it('should reject nested quantifiers', () => {
+        expect(validateRegexPattern('\\/(a+)+$')).toBe('Nested quantifier in "(a+)+" can be very slow');
+        expect(validateRegexPattern('\\/(a|ab)*')).toBeNull();
+        expect(validateRegexPattern('(?:\\/[^\\/]+)+')).toBeNull();
+    });
 });
 
 describe('validateOutputTemplate', () => {
@@ -252,6 +686,52 @@ describe('validateOutputTemplate', () => {
     it('should reject templates without placeholders', () => {
         expect(validateOutputTemplate('[static text]')).not.toBeNull();
     });
+
+    it('should accept capture groups with filters', () => {
+        expect(validateOutputTemplate('[${1|upper}]')).toBeNull();
+    });
+
+    it('should validate placeholders against capture groups', () => {
+        const groups = { count: 2, names: ['key'] };
+        expect(validateOutputTemplate('[${key} ${2}](${url})', groups)).toBeNull();
+        expect(validateOutputTemplate('[${3}](${url})', groups)).not.toBeNull();
+        expect(validateOutputTemplate('[${nope}](${url})', groups)).not.toBeNull();
+        expect(validateOutputTemplate('[${1}](${url})', { count: 1, names: ['url'] })).not.toBeNull();
+    });
+
+    it('should validate conditions and their branches against capture groups', () => {
+        const groups = { count: 3, names: ['kind'] };
+        expect(validateOutputTemplate('[${1}${2=pull?!:#}${3}](${url})', groups)).toBeNull();
+        expect(validateOutputTemplate('[${kind=x?${1}:${2}}](${url})', groups)).toBeNull();
+        expect(validateOutputTemplate('[${4=pull?PR:Issue}](${url})', groups)).toContain('missing capture group');
+        expect(validateOutputTemplate('[${2=pull?${nope}}](${url})', groups)).toContain('Unknown placeholder ${nope}');
+    });
+
+    it('should reject unknown filters and bad arguments', () => {
+        expect(validateOutputTemplate('[${1|shout}](${url})')).not.toBeNull();
+        expect(validateOutputTemplate('[${1|truncate:x}](${url})')).not.toBeNull();
+    });
+});
+
+describe('validateNoteNameTemplates', () => {
+    const template = (outputTemplate: string, overrides: Partial<LinkPattern> = {}) => ({ outputTemplate, ...overrides });
+
+    it('should reject ${title} in the label of wikilink templates', () => {
+        expect(validateNoteNameTemplates(template('[${title}](${url})', { outputFormat: 'wikilink' }))).toContain('${title}');
+        expect(validateNoteNameTemplates(template('[${title|T-${1}}](${url})'), 'wikilink')).toContain('${title}');
+    });
+
+    it('should reject ${title} in the note path', () => {
+        const noteAction = { enabled: true, pathTemplate: 'Links/${title}' };
+        expect(validateNoteNameTemplates(template('[${1}](${url})', { noteAction }))).toContain('note path');
+    });
+
+    it('should accept ${title} where no note is named after it', () => {
+        expect(validateNoteNameTemplates(template('[${title}](${url})', { outputFormat: 'markdown' }), 'wikilink')).toBeNull();
+        const noteAction = { enabled: true, pathTemplate: 'Links/${1}' };
+        expect(validateNoteNameTemplates(template('[${title}](${url})', { noteAction }))).toBeNull();
+        expect(validateNoteNameTemplates(template('[${title}](${url})', { noteAction: { ...noteAction, pathTemplate: '${title}', enabled: false } }))).toBeNull();
+    });
 });
 
 describe('decodeUrlString', () => {
@@ -276,6 +756,20 @@ describe('decodeUrlString', () => {
     });
 });
 
+describe('decodeHtmlEntities', () => {
+    it('should decode named entities', () => {
+        expect(decodeHtmlEntities('Tom &amp; Jerry &lt;3 &quot;hi&quot;')).toBe('Tom & Jerry <3 "hi"');
+    });
+
+    it('should decode numeric entities', () => {
+        expect(decodeHtmlEntities('a &#8211; b &#x2014; c')).toBe('a \u2013 b \u2014 c');
+    });
+
+    it('should leave unknown entities alone', () => {
+        expect(decodeHtmlEntities('&bogus; &')).toBe('&bogus; &');
+    });
+});
+
 describe('matchPattern with URL decoding', () => {
     it('should decode + to spaces in Confluence page titles', () => {
         const pattern: LinkPattern = {
@@ -291,6 +785,34 @@ describe('matchPattern with URL decoding', () => {
             .toBe('[Claude Code z LiteLLM](https://confluence.corp.xtb.com/spaces/AIRND/pages/201901327/Claude+Code+z+LiteLLM)');
     });
 
+    it('should apply template filters to decoded captures', () => {
+        const pattern: LinkPattern = {
+            id: 'figma',
+            name: 'Figma',
+            enabled: true,
+            domainPattern: 'figma.com',
+            pathPattern: '\\/file\\/[^\\/]+\\/([^?]+)',
+            outputTemplate: '[${1|replace:-: |title}](${url})',
+        };
+
+        expect(matchPattern('https://figma.com/file/abc/checkout-flow-v2', pattern))
+            .toBe('[Checkout Flow V2](https://figma.com/file/abc/checkout-flow-v2)');
+    });
+
+    it('should skip decoding with the raw filter', () => {
+        const pattern: LinkPattern = {
+            id: 'test',
+            name: 'Test',
+            enabled: true,
+            domainPattern: 'example.com',
+            pathPattern: '\\/page\\/([^?]+)',
+            outputTemplate: '[${1|raw}](${url})',
+        };
+
+        expect(matchPattern('https://example.com/page/Hello+World', pattern))
+            .toBe('[Hello+World](https://example.com/page/Hello+World)');
+    });
+
     it('should decode %20 in URLs', () => {
         const pattern: LinkPattern = {
             id: 'test',
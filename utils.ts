@@ -1,4 +1,33 @@
-import { LinkPattern } from './types';
+import { LinkNote, LinkPattern, MatchOptions, OutputFormat } from './types';
+import { cleanUrl } from './url-cleanup';
+import { DomainRule, matchDomain, parseDomainPattern, parseHttpUrl } from './domain-pattern';
+import { findNestedQuantifier } from './regex-safety';
+import { formatOutput, formatWikilink, renderNotePath, splitLinkTemplate } from './output-format';
+import { TemplateValue, TemplateValues, getTemplatePlaceholders, renderTemplate, validateTemplateSyntax } from './template';
+
+/**
+ * Placeholders provided by the plugin itself; capture groups can't use these names
+ */
+export const RESERVED_PLACEHOLDERS = ['url', 'cleanUrl', 'domain', 'title', 'query', 'hash', 'selection', 'label'];
+
+/**
+ * Longer URLs are never matched, which bounds the work a slow regex can do on paste
+ */
+export const MAX_URL_LENGTH = 2048;
+
+// lib.es2018 isn't part of the compile target, so describe named groups here
+type RegExpMatchWithGroups = RegExpMatchArray & { groups?: Record<string, string | undefined> };
+
+/**
+ * Capture groups available to a template
+ */
+export interface CaptureGroupInfo {
+    /** Number of capture groups (numbered ${1}..${count}) */
+    count: number;
+
+    /** Names of (?<name>...) groups */
+    names: string[];
+}
 
 /**
  * Decodes URL-encoded strings (e.g., "Hello+World" or "Hello%20World" -> "Hello World")
@@ -15,26 +44,46 @@ export function decodeUrlString(str: string): string {
     }
 }
 
+const NAMED_HTML_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+};
+
 /**
- * Escapes a domain pattern for use in regex
- * Converts wildcards (*) to regex equivalent (.*)
+ * Decodes HTML entities (e.g., "Tom &amp; Jerry" or "&#8211;") in text scraped from HTML
  */
-export function escapeDomainPattern(domain: string): string {
-    return domain
-        .replace(/[.+?^${}()|[\]\\]/g, '\\$&')  // Escape special regex chars
-        .replace(/\*/g, '.*');                    // Convert wildcards
+export function decodeHtmlEntities(str: string): string {
+    return str.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+        if (code[0] === '#') {
+            const codePoint = code[1].toLowerCase() === 'x'
+                ? parseInt(code.slice(2), 16)
+                : parseInt(code.slice(1), 10);
+            try {
+                return String.fromCodePoint(codePoint);
+            } catch {
+                return entity;
+            }
+        }
+        return NAMED_HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    });
 }
 
 /**
  * Sanitizes user input for domain patterns
- * Allows alphanumeric, dots, asterisks, hyphens, and forward slashes
+ * Allows hosts (including internationalized ones), wildcards, ports, IPv6 brackets,
+ * path prefixes, commas between domains and ! for exclusions
  */
 export function sanitizeDomain(domain: string): string {
-    return domain.replace(/[^a-zA-Z0-9.*\-\/]/g, '');
+    return domain.replace(/[^\u0080-\uffffa-zA-Z0-9.*\-\/!,:\[\] ]/g, '');
 }
 
 /**
- * Validates a regex pattern string
+ * Validates a regex pattern string. Nested quantifiers like (a+)+ are rejected,
+ * as they can freeze matching (catastrophic backtracking).
  * Returns null if valid, error message if invalid
  */
 export function validateRegexPattern(pattern: string): string | null {
@@ -43,95 +92,464 @@ export function validateRegexPattern(pattern: string): string | null {
     }
     try {
         new RegExp(pattern);
-        return null;
     } catch (e) {
         return e instanceof Error ? e.message : 'Invalid regex pattern';
     }
+    return findNestedQuantifier(pattern);
+}
+
+/**
+ * Lists the capture groups of a path pattern
+ * Returns null if the pattern is not a valid regex
+ */
+export function getCaptureGroups(pattern: string): CaptureGroupInfo | null {
+    if (!pattern || !pattern.trim()) return null;
+
+    // An empty alternative always matches, and the result has one slot per group
+    let emptyMatch: RegExpExecArray;
+    try {
+        emptyMatch = new RegExp(`(?:${pattern})|`).exec('') as RegExpExecArray;
+    } catch {
+        return null;
+    }
+
+    const names: string[] = [];
+    const namedGroupRegex = /\\.|\(\?<([A-Za-z_$][\w$]*)>/g;
+    let match: RegExpExecArray | null;
+    while ((match = namedGroupRegex.exec(pattern)) !== null) {
+        if (match[1]) names.push(match[1]);
+    }
+
+    return { count: emptyMatch.length - 1, names };
 }
 
 /**
  * Validates an output template
- * Checks for valid placeholder syntax
+ * Checks for valid placeholder syntax, filter names and filter arguments.
+ * If the pattern's capture groups are given, placeholders must refer to existing groups.
  */
-export function validateOutputTemplate(template: string): string | null {
+export function validateOutputTemplate(template: string, groups?: CaptureGroupInfo): string | null {
     if (!template || template.trim() === '') {
         return 'Template cannot be empty';
     }
 
+    const syntaxError = validateTemplateSyntax(template);
+    if (syntaxError) {
+        return syntaxError;
+    }
+
     // Must contain ${url} or at least one capture group reference
-    if (!template.includes('${url}') && !/\$\{\d+\}/.test(template)) {
+    const placeholders = getTemplatePlaceholders(template);
+    if (!placeholders.some(name => name === 'url' || /^\d+$/.test(name))) {
         return 'Template must include ${url} or at least one capture group (${1}, ${2}, etc.)';
     }
 
+    if (groups) {
+        for (const name of placeholders) {
+            if (RESERVED_PLACEHOLDERS.includes(name) || name.startsWith('query.')) continue;
+
+            if (/^\d+$/.test(name)) {
+                if (parseInt(name, 10) > groups.count) {
+                    return `\${${name}} refers to a missing capture group (pattern has ${groups.count})`;
+                }
+            } else if (!groups.names.includes(name)) {
+                return `Unknown placeholder \${${name}}`;
+            }
+        }
+
+        const reserved = groups.names.find(name => RESERVED_PLACEHOLDERS.includes(name));
+        if (reserved) {
+            return `Group name "${reserved}" is reserved, please rename it`;
+        }
+    }
+
     return null;
 }
 
 /**
- * Attempts to match a URL against a single pattern
- * Returns the formatted result or null if no match
+ * Checks that ${title} isn't part of a note name: note names are rendered when the link
+ * is inserted, before the title is fetched. That rules out the label of a wikilink
+ * template and the note path of "Link to note". Returns an error message or null.
+ */
+export function validateNoteNameTemplates(
+    pattern: Pick<LinkPattern, 'outputTemplate' | 'outputFormat' | 'noteAction'>,
+    defaultFormat?: OutputFormat
+): string | null {
+    const usesTitle = (template: string) => getTemplatePlaceholders(template).includes('title');
+
+    if (pattern.noteAction?.enabled) {
+        return usesTitle(pattern.noteAction.pathTemplate)
+            ? 'The note path cannot use ${title}, it is fetched after the note is created'
+            : null;
+    }
+
+    if ((pattern.outputFormat ?? defaultFormat) === 'wikilink' && usesTitle(splitLinkTemplate(pattern.outputTemplate).label)) {
+        return 'The label of a wikilink names the note and cannot use ${title}, it is fetched after the note is created';
+    }
+
+    return null;
+}
+
+/**
+ * Splits the query string and fragment off a URL (both without their leading ? or #)
+ * Either part is null if the URL doesn't have it
  */
-export function matchPattern(url: string, pattern: LinkPattern): string | null {
+export function splitUrl(url: string): { query: string | null; hash: string | null } {
+    const hashIndex = url.indexOf('#');
+    const hash = hashIndex >= 0 ? url.slice(hashIndex + 1) : null;
+    const withoutHash = hashIndex >= 0 ? url.slice(0, hashIndex) : url;
+
+    const queryIndex = withoutHash.indexOf('?');
+    const query = queryIndex >= 0 ? withoutHash.slice(queryIndex + 1) : null;
+
+    return { query, hash };
+}
+
+/**
+ * Parses a query string into raw (still encoded) values; the first occurrence of a key wins
+ */
+export function parseQueryString(query: string): Record<string, string> {
+    const params: Record<string, string> = {};
+    for (const part of query.split('&')) {
+        if (!part) continue;
+        const separator = part.indexOf('=');
+        const key = decodeUrlString(separator >= 0 ? part.slice(0, separator) : part);
+        if (!(key in params)) {
+            params[key] = separator >= 0 ? part.slice(separator + 1) : '';
+        }
+    }
+    return params;
+}
+
+/**
+ * Matches an optional query/fragment regex and returns its named groups, or null if it fails.
+ * A missing pattern always matches; a pattern never matches a URL without that part.
+ */
+function matchOptionalPattern(regex: RegExp | null, value: string | null): Record<string, string | undefined> | null {
+    if (!regex) return {};
+    if (value === null) return null;
+
+    const match = value.match(regex) as RegExpMatchWithGroups | null;
+    return match ? match.groups ?? {} : null;
+}
+
+function captureValue(rawValue: string | undefined): TemplateValue {
+    const raw = rawValue !== undefined ? rawValue : '';
+    return { value: decodeUrlString(raw), raw };
+}
+
+/**
+ * A pattern with its domain rules and regexes built, ready for repeated matching
+ */
+export interface CompiledPattern {
+    pattern: LinkPattern;
+
+    domainRules: DomainRule[];
+
+    /** Matches the URL after the domain (without fragment), groups line up with the path pattern's */
+    pathRegex: RegExp;
+
+    queryRegex: RegExp | null;
+    fragmentRegex: RegExp | null;
+}
+
+/**
+ * Builds the domain rules and regexes of a pattern once
+ * Returns null for disabled or incomplete patterns; throws if the domain pattern or a regex is invalid
+ */
+export function compilePattern(pattern: LinkPattern): CompiledPattern | null {
     if (!pattern.enabled) return null;
     if (!pattern.domainPattern || !pattern.pathPattern) return null;
 
-    // Build domain regex
-    const escapedDomain = escapeDomainPattern(pattern.domainPattern);
-    const domainRegex = new RegExp(`^https?:\\/\\/${escapedDomain}`);
+    return {
+        pattern,
+        domainRules: parseDomainPattern(pattern.domainPattern),
+        // The path pattern is matched after the domain, with optional query string at the end.
+        // Only non-capturing groups are added, so match indices line up with the user's groups.
+        pathRegex: new RegExp(`^(?:${pattern.pathPattern})(?:\\?.*)?$`),
+        queryRegex: pattern.queryPattern ? new RegExp(pattern.queryPattern) : null,
+        fragmentRegex: pattern.fragmentPattern ? new RegExp(pattern.fragmentPattern) : null,
+    };
+}
+
+/**
+ * Attempts to match a URL against a single pattern
+ * Returns the match with its formatted output, or null if no match
+ */
+export function evaluatePattern(url: string, pattern: LinkPattern, options: MatchOptions = {}): PatternMatch | null {
+    const compiled = compilePattern(pattern);
+    return compiled ? evaluateCompiledPattern(url, compiled, options) : null;
+}
+
+/**
+ * Placeholder values of a URL matched against a pattern
+ */
+export interface MatchValues {
+    values: TemplateValues;
+
+    /** Decoded numbered groups, in order */
+    captures: string[];
+
+    /** Decoded named groups from the path, query and fragment patterns */
+    namedCaptures: Record<string, string>;
+}
+
+/**
+ * Matches a URL against a compiled pattern and collects the placeholder values
+ * Returns null if the URL doesn't match
+ */
+export function getMatchValues(url: string, compiled: CompiledPattern): MatchValues | null {
+    const { pattern } = compiled;
 
     // Check domain match first (fast path)
-    if (!domainRegex.test(url)) return null;
+    const parsedUrl = parseHttpUrl(url);
+    const domainMatch = parsedUrl && matchDomain(compiled.domainRules, parsedUrl);
+    if (!domainMatch) return null;
 
-    // Build full URL regex with path pattern
-    // The path pattern is appended after the domain, with optional query string at the end
-    const fullRegex = new RegExp(
-        `^(https?:\\/\\/${escapedDomain})${pattern.pathPattern}(\\?.*)?$`
-    );
+    // The path is matched without the fragment first, so patterns ending in $ still work,
+    // then with it, for hash-routed apps (e.g. "\/#\/tickets\/(\d+)")
+    const { query, hash } = splitUrl(url);
+    const path = hash !== null ? domainMatch.rest.slice(0, domainMatch.rest.length - hash.length - 1) : domainMatch.rest;
 
-    const match = url.match(fullRegex);
+    let match = path.match(compiled.pathRegex) as RegExpMatchWithGroups | null;
+    if (!match && hash !== null) {
+        match = domainMatch.rest.match(compiled.pathRegex) as RegExpMatchWithGroups | null;
+    }
     if (!match) return null;
 
-    // Build output from template
-    let output = pattern.outputTemplate;
+    // Optional query string and fragment matchers
+    const queryGroups = matchOptionalPattern(compiled.queryRegex, query);
+    const fragmentGroups = matchOptionalPattern(compiled.fragmentRegex, hash);
+    if (!queryGroups || !fragmentGroups) return null;
 
-    // Replace ${url} with the full URL
-    output = output.replace(/\$\{url\}/g, url);
+    // ${url} is the full URL (or the cleaned one if the pattern says so), ${domain} the matched domain (without protocol)
+    const cleanedUrl = pattern.cleanup ? cleanUrl(url, pattern.cleanup) : url;
+    const outputUrl = pattern.cleanup?.replaceUrl ? cleanedUrl : url;
+    const values: TemplateValues = {
+        url: { value: outputUrl, raw: outputUrl },
+        cleanUrl: { value: cleanedUrl, raw: cleanedUrl },
+        domain: { value: domainMatch.domain, raw: domainMatch.domain },
+        query: { value: query ?? '', raw: query ?? '' },
+        hash: captureValue(hash ?? undefined),
+        // Only known when pasting, see evaluateCompiledPattern
+        selection: { value: '', raw: '' },
+        label: { value: '', raw: '' },
+    };
 
-    // Replace ${domain} with matched domain (without protocol)
-    const domainMatch = match[1].replace(/^https?:\/\//, '');
-    output = output.replace(/\$\{domain\}/g, domainMatch);
+    // Query parameters ${query.name}
+    for (const [name, rawValue] of Object.entries(parseQueryString(query ?? ''))) {
+        values[`query.${name}`] = captureValue(rawValue);
+    }
 
-    // Replace capture groups ${1}, ${2}, etc.
-    // match[0] is full match, match[1] is protocol+domain from our wrapper group
-    // Actual user captures from pathPattern start at match[2]
-    // Capture groups are URL-decoded (e.g., "Hello+World" -> "Hello World")
-    for (let i = 1; i <= 9; i++) {
-        const captureIndex = i + 1; // Offset by domain capture group
-        const rawValue = match[captureIndex] !== undefined ? match[captureIndex] : '';
-        const captureValue = decodeUrlString(rawValue);
-        output = output.replace(new RegExp(`\\$\\{${i}\\}`, 'g'), captureValue);
+    // Capture groups ${1}, ${2}, etc. and named groups ${name}
+    // Capture groups are URL-decoded (e.g., "Hello+World" -> "Hello World") unless the raw filter is used
+    const captures: string[] = [];
+    const namedCaptures: Record<string, string> = {};
+    for (let i = 1; i < match.length; i++) {
+        values[String(i)] = captureValue(match[i]);
+        captures.push(values[String(i)].value);
+    }
+    for (const groups of [match.groups ?? {}, queryGroups, fragmentGroups]) {
+        for (const [name, rawValue] of Object.entries(groups)) {
+            if (!RESERVED_PLACEHOLDERS.includes(name)) {
+                values[name] = captureValue(rawValue);
+                namedCaptures[name] = values[name].value;
+            }
+        }
     }
 
-    return output;
+    return { values, captures, namedCaptures };
 }
 
 /**
- * Main formatting function - tries patterns in order, returns first match
+ * Template to render for a paste: with selectionAsLabel, the selected text replaces
+ * the label of templates that don't place ${selection} themselves
  */
-export function formatLink(pastedText: string, patterns: LinkPattern[]): string | null {
-    // Sanity checks
-    if (typeof pastedText !== 'string' || !pastedText.trim()) return null;
+function getOutputTemplate(template: string, selection: string, options: MatchOptions): string {
+    if (!selection || !options.selectionAsLabel || getTemplatePlaceholders(template).includes('selection')) {
+        return template;
+    }
+    return `[\${selection}](${splitLinkTemplate(template).target})`;
+}
 
-    // Reject if contains whitespace (not a single URL)
-    if (/\s/.test(pastedText)) return null;
+/**
+ * Attempts to match a URL against a compiled pattern
+ * Returns the match with its formatted output, or null if no match
+ */
+export function evaluateCompiledPattern(url: string, compiled: CompiledPattern, options: MatchOptions = {}): PatternMatch | null {
+    const matchValues = getMatchValues(url, compiled);
+    if (!matchValues) return null;
+
+    const { pattern } = compiled;
+    const { captures, namedCaptures } = matchValues;
+    const selection = options.selection && !options.selection.includes('\n') ? options.selection : '';
+    const copiedLabel = options.label ?? '';
+    const values: TemplateValues = {
+        ...matchValues.values,
+        selection: { value: selection, raw: selection },
+        label: { value: copiedLabel, raw: copiedLabel },
+    };
+    const outputTemplate = getOutputTemplate(pattern.outputTemplate, selection, options);
+    const context = { lookupTables: options.lookupTables };
+
+    // "Link to note" inserts a wikilink to a per-match note instead of the URL
+    if (pattern.noteAction?.enabled && pattern.noteAction.pathTemplate) {
+        const notePath = renderNotePath(pattern.noteAction.pathTemplate, values, context);
+        const label = renderTemplate(splitLinkTemplate(outputTemplate).label, values, context);
+        return {
+            pattern,
+            format: 'wikilink',
+            output: formatWikilink(notePath.replace(/\.md$/i, ''), label),
+            note: {
+                path: notePath,
+                frontmatter: { ...namedCaptures, url: values.url.value, domain: values.domain.value, captures },
+                templatePath: pattern.noteAction.templatePath || undefined,
+                values,
+            },
+        };
+    }
+
+    const format = pattern.outputFormat ?? options.defaultFormat ?? 'template';
+    if (format === 'template') {
+        return { pattern, format, output: renderTemplate(outputTemplate, values, context) };
+    }
+
+    // Other formats take the label (and target) from a "[label](target)" template
+    const parts = splitLinkTemplate(outputTemplate);
+    const label = renderTemplate(parts.label, values, context);
+    const target = renderTemplate(parts.target, values, context);
+    return { pattern, format, ...formatOutput(format, label, target, pattern.name) };
+}
+
+/**
+ * Renders only the label part of a template (the pattern's own by default) for a compiled pattern,
+ * ignoring the output format. Returns null if the pattern doesn't match.
+ */
+export function evaluateCompiledLabel(
+    url: string,
+    compiled: CompiledPattern,
+    template: string = compiled.pattern.outputTemplate,
+    options: MatchOptions = {}
+): string | null {
+    const matchValues = getMatchValues(url, compiled);
+    return matchValues
+        ? renderTemplate(splitLinkTemplate(template).label, matchValues.values, { lookupTables: options.lookupTables })
+        : null;
+}
+
+/**
+ * Attempts to match a URL against a single pattern
+ * Returns the formatted result or null if no match
+ */
+export function matchPattern(url: string, pattern: LinkPattern, options: MatchOptions = {}): string | null {
+    const match = evaluatePattern(url, pattern, options);
+    return match ? match.output : null;
+}
+
+/**
+ * Renders only the label part of a template (the pattern's own by default) for a URL,
+ * ignoring the output format. Returns null if the pattern doesn't match.
+ */
+export function matchPatternLabel(
+    url: string,
+    pattern: LinkPattern,
+    template: string = pattern.outputTemplate,
+    options: MatchOptions = {}
+): string | null {
+    const compiled = compilePattern(pattern);
+    return compiled ? evaluateCompiledLabel(url, compiled, template, options) : null;
+}
+
+/**
+ * Result of matching a URL against a pattern list
+ */
+export interface PatternMatch {
+    /** The pattern that matched */
+    pattern: LinkPattern;
+
+    /** Formatted output produced by the pattern's template and output format */
+    output: string;
+
+    /** Output format the output was rendered in; links to notes are wikilinks */
+    format: OutputFormat;
+
+    /** Note the output links to, to be created (or updated) after insertion */
+    note?: LinkNote;
+}
+
+/**
+ * Finds the first matching pattern for a URL faster than trying every pattern, see PatternMatcher
+ */
+export interface PatternLookup {
+    findMatch(url: string, options?: MatchOptions): PatternMatch | null;
+
+    /** Patterns that may match the URL, in order */
+    getCandidates(url: string): LinkPattern[];
+}
+
+/**
+ * A pattern list, or a lookup built from one
+ */
+export type PatternSource = LinkPattern[] | PatternLookup;
+
+/**
+ * Tries patterns in order against a single URL, returns the first match
+ */
+export function findMatchingPattern(url: string, patterns: PatternSource, options: MatchOptions = {}): PatternMatch | null {
+    if (url.length > MAX_URL_LENGTH) return null;
+
+    if (!Array.isArray(patterns)) {
+        return patterns.findMatch(url, options);
+    }
 
-    // Try each pattern in order
     for (const pattern of patterns) {
-        const result = matchPattern(pastedText, pattern);
-        if (result !== null) {
-            return result;
+        const match = evaluatePattern(url, pattern, options);
+        if (match) {
+            return match;
         }
     }
 
     return null;
 }
 
+/**
+ * Splits pasted text between cursors: with one line per cursor, each cursor gets its own line,
+ * otherwise every cursor gets the whole text. A trailing line break doesn't count as a line.
+ */
+export function distributePastedText(text: string, cursorCount: number): string[] {
+    const lines = text.replace(/\r?\n$/, '').split(/\r?\n/);
+    if (cursorCount > 1 && lines.length === cursorCount) {
+        return lines;
+    }
+    return new Array<string>(cursorCount).fill(text);
+}
+
+/**
+ * Checks whether pasted text could be a single URL
+ */
+export function isSingleUrlCandidate(text: string): boolean {
+    // Sanity checks
+    if (typeof text !== 'string' || !text.trim()) return false;
+
+    // Reject if contains whitespace (not a single URL)
+    return !/\s/.test(text);
+}
+
+/**
+ * Matches pasted text that consists of a single URL, returns the first matching pattern
+ */
+export function findLinkMatch(pastedText: string, patterns: PatternSource, options: MatchOptions = {}): PatternMatch | null {
+    if (!isSingleUrlCandidate(pastedText)) return null;
+
+    // Try each pattern in order
+    return findMatchingPattern(pastedText, patterns, options);
+}
+
+/**
+ * Main formatting function - tries patterns in order, returns first match
+ */
+export function formatLink(pastedText: string, patterns: PatternSource, options: MatchOptions = {}): string | null {
+    const match = findLinkMatch(pastedText, patterns, options);
+    return match ? match.output : null;
+}
+